@@ -2,27 +2,33 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as cp from 'child_process';
-import { Storage, Thread } from './storage';
+import { Plan, Storage, Thread, ThreadSummary } from './storage';
 import { Safety } from './safety';
 import { Cache } from './cache';
-
-interface ToolCall {
-    id: string;
-    function: { name: string; arguments: string };
-}
-
-interface Message {
-    role: string;
-    content?: string;
-    tool_calls?: ToolCall[];
-    tool_call_id?: string;
-}
+import { Checkpoint, Checkpoints } from './checkpoints';
+import { CommandRunner, summarizeCommandResult } from './commandRunner';
+import { estimateMessageTokens, estimateTokens, isContextLengthError, packMessages } from './context';
+import { buildSummaryRequest, summaryCutoff } from './summary';
+import { SemanticIndex } from './semanticIndex';
+import { formatSearchResult, TextSearch } from './textSearch';
+import { CodeNavigator, SymbolPosition } from './navigation';
+import { CodeRefactor, EditPlan } from './refactor';
+import { findDrift, mergeSteps, parsePlan, PLAN_INSTRUCTIONS, stepFailure, stepPrompt } from './plan';
+import { buildReport, collectErrors, FixOutcome, formatReport, VerifyReport, waitForDiagnostics } from './verify';
+import { createCompletion, createProvider, ChatResponse, Message, StreamEvent, ToolDefinition } from './providers';
+import { applyHunks, applySearchReplace, parseUnifiedDiff, SearchReplace } from './patch';
+import { getProfiles, ModelProfile, resolveProfile, TaskKind } from './profiles';
+import { buildRewriteMessages, extractReplacement, RewriteRequest } from './inlineEdit';
+import { buildFimPrompt, FimRequest, trimCompletion } from './completion';
+import { ContextBlock, Mention, MentionKind, MentionResolver, MentionSuggestion } from './mentions';
+import { captureEditorContext, EditorContext, formatEditorContext } from './editorContext';
+import { CHANGE_TOOLS, ChatMode, defaultMode, EDIT_TOOLS, getMode, ModeDefinition } from './modes';
 
 const SYSTEM_PROMPT = `You are an AI coding agent inside VS Code. You take ACTION using tools - you don't just explain things.
 
 CRITICAL RULES:
-1. When asked to create/edit/fix a file, USE write_file immediately. Don't just explain.
-2. When fixing errors, read the file first, then write_file with the COMPLETE corrected content.
+1. When asked to create/edit/fix a file, USE edit_file (existing files) or write_file (new files) immediately. Don't just explain.
+2. When fixing errors, read the file first, then edit_file with search/replace blocks copied EXACTLY from the file.
 3. Never respond with just explanations - always take action with tools.
 4. Do NOT prefix responses with "THOUGHT:" - just act.
 
@@ -31,9 +37,13 @@ TOOLS:
 FILES:
 - list_files(path?, recursive?) - List directory contents
 - read_file(path) - Read file contents (DO THIS BEFORE EDITING)
-- write_file(path, content) - Write COMPLETE file content (creates or overwrites)
+- write_file(path, content) - Write COMPLETE file content (new files or full rewrites only)
+- edit_file(path, edits[{search, replace}]) - Replace exact text; each search must match exactly once
+- apply_patch(patch) - Apply a unified diff (one or more files)
+- rename_symbol(newName, path?, line?, symbol?) - Rename a symbol and every reference via the language server (use this, not write_file, for renames)
+- apply_code_action(path, line?, endLine?, kind?, title?) - List or apply quick fixes/refactorings (organize imports, extract function...); omit title to list
 - delete_file(path) - Delete a file
-- search_files(query, path?, filePattern?) - Search text in files
+- search_files(query, path?, filePattern?, exclude?, regex?, caseSensitive?, wholeWord?, context?, offset?) - Search text in files (paged)
 
 EDITOR:
 - get_active_file() - Get current open file
@@ -52,6 +62,16 @@ CONTEXT:
 - get_project_structure() - Get file tree
 - get_file_outline(path) - Get symbols in file
 - find_file(name) - Search for files by name
+- semantic_search(query, limit?, path?) - Find code by meaning ("where are auth tokens refreshed?")
+
+CODE NAVIGATION (language server; prefer these over searching when following code):
+- go_to_definition(path?, line?, symbol?) - Where a symbol is defined
+- find_references(path?, line?, symbol?) - Every usage of a symbol
+- workspace_symbol_search(query) - Find classes/functions/etc. by name
+- hover_info(path?, line?, symbol?) - Type signature and docs
+- call_hierarchy(path?, line?, symbol?, direction?) - Callers and callees of a function
+- type_hierarchy(path?, line?, symbol?, direction?) - Supertypes and subtypes of a class/interface
+Point at a symbol with path + line (+ symbol name on that line), or just symbol to look it up by name.
 
 GIT:
 - git_status() - Get status
@@ -59,16 +79,34 @@ GIT:
 - git_log(count?) - Get commits
 
 SYSTEM:
-- run_command(cmd) - Run shell command
+- run_command(cmd, cwd?, timeout?) - Run shell command, returns exit code + output tail
 - undo() - Undo last file change
+- show_changes(path?, context?) - Unified diff of everything changed this session
 
 WORKFLOW FOR EDITING:
 1. read_file(path) to get current content
-2. write_file(path, corrected_content) with the FULL fixed file
+2. edit_file(path, edits) with small search/replace blocks; include enough lines to make each search unique
+3. If an edit fails, read_file again and retry with the exact current text
+
+ATTACHED CONTEXT:
+A message may end with <context source="..."> blocks: where the user is in the editor (@editor: active file, cursor, selection, diagnostics) and anything they attached (@file, @symbol, @selection, @problems...). Use them instead of fetching the same thing again; file and symbol blocks are prefixed with line numbers, which are not part of the code.
 
 Be concise. Take action. Use tools.`;
 
-const TOOLS = [
+// Tools whose calls differ by more than the path; loop detection compares all their arguments
+const FULL_ARG_TOOLS = new Set([
+    'edit_file', 'apply_patch', 'go_to_definition', 'find_references', 'workspace_symbol_search', 'hover_info',
+    'call_hierarchy', 'type_hierarchy', 'rename_symbol', 'apply_code_action'
+]);
+
+// Shared by the language-server navigation tools
+const SYMBOL_POSITION = {
+    path: { type: 'string', description: 'File containing the symbol (omit to look the symbol up by name)' },
+    line: { type: 'number', description: '1-based line the symbol is on' },
+    symbol: { type: 'string', description: 'Symbol name (on that line, or anywhere when no path is given)' }
+};
+
+const TOOLS: ToolDefinition[] = [
     {
         type: 'function',
         function: {
@@ -110,6 +148,76 @@ const TOOLS = [
             }
         }
     },
+    {
+        type: 'function',
+        function: {
+            name: 'edit_file',
+            description: 'Edit a file with search/replace blocks. Each search must match the current file text exactly once; edits apply in order.',
+            parameters: {
+                type: 'object',
+                properties: {
+                    path: { type: 'string' },
+                    edits: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            properties: {
+                                search: { type: 'string', description: 'Exact text to find (copy from read_file output)' },
+                                replace: { type: 'string', description: 'Replacement text' }
+                            },
+                            required: ['search', 'replace']
+                        }
+                    }
+                },
+                required: ['path', 'edits']
+            }
+        }
+    },
+    {
+        type: 'function',
+        function: {
+            name: 'apply_patch',
+            description: 'Apply a unified diff (--- a/file, +++ b/file, @@ hunks). Can touch several files; /dev/null creates or deletes.',
+            parameters: {
+                type: 'object',
+                properties: { patch: { type: 'string', description: 'Unified diff text' } },
+                required: ['patch']
+            }
+        }
+    },
+    {
+        type: 'function',
+        function: {
+            name: 'rename_symbol',
+            description: 'Rename a symbol and all its references across the workspace using the language server',
+            parameters: {
+                type: 'object',
+                properties: {
+                    ...SYMBOL_POSITION,
+                    newName: { type: 'string', description: 'New name for the symbol' }
+                },
+                required: ['newName']
+            }
+        }
+    },
+    {
+        type: 'function',
+        function: {
+            name: 'apply_code_action',
+            description: 'List or apply code actions (quick fixes, organize imports, extract function/variable) for a range of lines. Omit title to list available actions.',
+            parameters: {
+                type: 'object',
+                properties: {
+                    path: { type: 'string', description: 'File path' },
+                    line: { type: 'number', description: 'First line (1-based, default 1)' },
+                    endLine: { type: 'number', description: 'Last line (default: line)' },
+                    kind: { type: 'string', description: 'Filter by kind, e.g. quickfix, refactor.extract, source.organizeImports' },
+                    title: { type: 'string', description: 'Title of the action to apply (exact or unique part)' }
+                },
+                required: ['path']
+            }
+        }
+    },
     {
         type: 'function',
         function: {
@@ -126,13 +234,20 @@ const TOOLS = [
         type: 'function',
         function: {
             name: 'search_files',
-            description: 'Search for text pattern in files',
+            description: 'Search file contents across the workspace (respects .gitignore and files.exclude). Literal text by default; results are paged.',
             parameters: {
                 type: 'object',
                 properties: { 
-                    query: { type: 'string' },
-                    path: { type: 'string' },
-                    filePattern: { type: 'string' }
+                    query: { type: 'string', description: 'Text to find, or a regular expression when regex=true' },
+                    path: { type: 'string', description: 'Folder to search (default: workspace root)' },
+                    filePattern: { type: 'string', description: 'Glob(s) of files to include, space-separated, e.g. "**/*.ts" or "src/**/*.{ts,tsx}"' },
+                    exclude: { type: 'string', description: 'Glob(s) of files to skip, space-separated, e.g. "**/*.test.ts"' },
+                    regex: { type: 'boolean', description: 'Treat query as a regular expression' },
+                    caseSensitive: { type: 'boolean', description: 'Default: case-insensitive unless the query has capitals' },
+                    wholeWord: { type: 'boolean', description: 'Match whole words only' },
+                    context: { type: 'number', description: 'Lines of context around each match (max 10)' },
+                    offset: { type: 'number', description: 'Skip this many matches (for the next page)' },
+                    maxResults: { type: 'number', description: 'Matches per page (default 50, max 200)' }
                 },
                 required: ['query']
             }
@@ -142,10 +257,14 @@ const TOOLS = [
         type: 'function',
         function: {
             name: 'run_command',
-            description: 'Run shell command',
+            description: 'Run shell command (no stdin). Returns exit code and the tail of the output.',
             parameters: {
                 type: 'object',
-                properties: { cmd: { type: 'string' } },
+                properties: {
+                    cmd: { type: 'string' },
+                    cwd: { type: 'string', description: 'Working directory relative to the workspace' },
+                    timeout: { type: 'number', description: 'Timeout in seconds (capped by settings)' }
+                },
                 required: ['cmd']
             }
         }
@@ -241,6 +360,20 @@ const TOOLS = [
             parameters: { type: 'object', properties: {} }
         }
     },
+    {
+        type: 'function',
+        function: {
+            name: 'show_changes',
+            description: 'Show a unified diff of every file changed by the agent this session',
+            parameters: {
+                type: 'object',
+                properties: {
+                    path: { type: 'string', description: 'Only show files whose path contains this' },
+                    context: { type: 'number', description: 'Context lines around each change (default: 3)' }
+                }
+            }
+        }
+    },
     {
         type: 'function',
         function: {
@@ -278,14 +411,30 @@ const TOOLS = [
         type: 'function',
         function: {
             name: 'find_file',
-            description: 'Fast search for files by name',
+            description: 'Fast fuzzy search for files by name or path, like Ctrl+P ("usrctl" finds UserController.ts, "api/user" narrows by folder)',
             parameters: {
                 type: 'object',
-                properties: { name: { type: 'string', description: 'File name or partial name to search for' } },
+                properties: { name: { type: 'string', description: 'File name, partial name, abbreviation or path fragment' } },
                 required: ['name']
             }
         }
     },
+    {
+        type: 'function',
+        function: {
+            name: 'semantic_search',
+            description: 'Find code related to a natural-language description across the whole workspace. Returns the best matching snippets with file:line ranges. Use when you do not know the exact text or file name.',
+            parameters: {
+                type: 'object',
+                properties: {
+                    query: { type: 'string', description: 'What the code does or is about' },
+                    limit: { type: 'number', description: 'Max results (default 8)' },
+                    path: { type: 'string', description: 'Only search under this folder' }
+                },
+                required: ['query']
+            }
+        }
+    },
     {
         type: 'function',
         function: {
@@ -294,6 +443,70 @@ const TOOLS = [
             parameters: { type: 'object', properties: {} }
         }
     },
+    {
+        type: 'function',
+        function: {
+            name: 'go_to_definition',
+            description: 'Find where a symbol is defined, using the language server',
+            parameters: { type: 'object', properties: SYMBOL_POSITION }
+        }
+    },
+    {
+        type: 'function',
+        function: {
+            name: 'find_references',
+            description: 'Find all references to a symbol across the workspace, using the language server',
+            parameters: { type: 'object', properties: SYMBOL_POSITION }
+        }
+    },
+    {
+        type: 'function',
+        function: {
+            name: 'workspace_symbol_search',
+            description: 'Search classes, functions, methods, variables etc. by name across the workspace',
+            parameters: {
+                type: 'object',
+                properties: { query: { type: 'string', description: 'Symbol name or part of it' } },
+                required: ['query']
+            }
+        }
+    },
+    {
+        type: 'function',
+        function: {
+            name: 'hover_info',
+            description: 'Type signature and documentation of a symbol, as shown on hover',
+            parameters: { type: 'object', properties: SYMBOL_POSITION }
+        }
+    },
+    {
+        type: 'function',
+        function: {
+            name: 'call_hierarchy',
+            description: 'Functions that call this function (incoming) and functions it calls (outgoing)',
+            parameters: {
+                type: 'object',
+                properties: {
+                    ...SYMBOL_POSITION,
+                    direction: { type: 'string', enum: ['incoming', 'outgoing', 'both'], description: 'Default: both' }
+                }
+            }
+        }
+    },
+    {
+        type: 'function',
+        function: {
+            name: 'type_hierarchy',
+            description: 'Supertypes and subtypes of a class or interface',
+            parameters: {
+                type: 'object',
+                properties: {
+                    ...SYMBOL_POSITION,
+                    direction: { type: 'string', enum: ['supertypes', 'subtypes', 'both'], description: 'Default: both' }
+                }
+            }
+        }
+    },
     {
         type: 'function',
         function: {
@@ -330,6 +543,21 @@ const TOOLS = [
     }
 ];
 
+const SUMMARY_RESERVE = 200;
+const MIN_CONTEXT_BUDGET = 1024;
+const CONTEXT_RETRIES = 2;
+// Rolling summaries leave the latest turns verbatim and wait until enough new history piles up
+const SUMMARY_KEEP_TURNS = 2;
+const SUMMARY_MIN_TOKENS = 1500;
+
+// Structured notifications for the chat view, beyond plain log lines
+export type AgentEvent =
+    | { type: 'turnStarted'; messageIndex: number }
+    | { type: 'secretsRedacted'; count: number; source: string; kinds: string[] }
+    | { type: 'summaryUpdated'; summary: ThreadSummary | null }
+    | { type: 'planUpdated'; plan: Plan | null }
+    | { type: 'fixRound'; round: number; maxRounds: number; errors: number; command?: string; commandPassed?: boolean; outcome?: FixOutcome };
+
 export class Agent {
     private log: (msg: string) => void;
     private messages: Message[] = [];
@@ -339,15 +567,57 @@ export class Agent {
     private safety: Safety;
     private cache: Cache;
     private currentThread: Thread | null = null;
+    private profileName?: string;
+    // The chat's mode, and the one a command asked for while its turn runs
+    private modeName?: ChatMode;
+    private turnMode?: ChatMode;
     private onThreadChange?: (thread: Thread | null) => void;
+    private onStream?: (event: StreamEvent) => void;
+    private onEvent?: (event: AgentEvent) => void;
+    private checkpoints: Checkpoints;
+    private commandRunner = new CommandRunner();
+    // Set while fixUntilGreen runs: the files it checks (empty = whole workspace) and its stop switch
+    private fixScope?: string[];
+    private fixAbort?: AbortController;
+    // Planning turns only see read-only tools; plan steps record the files they change
+    private readOnly = false;
+    private planAbort?: AbortController;
+    private planTouched?: Set<string>;
+    private summarizing?: Promise<void>;
+    private semanticIndex: SemanticIndex;
+    private textSearch: TextSearch;
+    private navigator: CodeNavigator;
+    private refactor: CodeRefactor;
+    private mentions: MentionResolver;
+    // Editor state last attached in this chat, so unchanged context is not sent again
+    private lastEditorContext: EditorContext | null = null;
 
-    constructor(log: (msg: string) => void, onThreadChange?: (thread: Thread | null) => void) {
+    constructor(
+        log: (msg: string) => void,
+        onThreadChange?: (thread: Thread | null) => void,
+        onStream?: (event: StreamEvent) => void,
+        onEvent?: (event: AgentEvent) => void
+    ) {
         this.log = log;
         this.onThreadChange = onThreadChange;
+        this.onStream = onStream;
+        this.onEvent = onEvent;
         this.workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || process.cwd();
         this.storage = new Storage();
         this.safety = new Safety(this.workspaceRoot);
         this.cache = new Cache(this.workspaceRoot);
+        this.checkpoints = new Checkpoints(this.workspaceRoot);
+        // .env and key files stay out of the index unless the user allowed them; secrets elsewhere are redacted before embedding
+        this.semanticIndex = new SemanticIndex(
+            this.workspaceRoot,
+            this.cache,
+            p => this.safety.isPathSafe(p).safe,
+            text => this.getConfig().redactSecrets ? this.safety.redactSecrets(text).text : text
+        );
+        this.textSearch = new TextSearch(this.workspaceRoot, p => this.safety.isPathSafe(p).safe);
+        this.navigator = new CodeNavigator(this.workspaceRoot, p => this.safety.isPathSafe(p).safe);
+        this.refactor = new CodeRefactor(this.workspaceRoot, this.navigator);
+        this.mentions = new MentionResolver(this.workspaceRoot, this.cache, p => this.safety.isPathSafe(p).safe);
         this.initMessages();
     }
 
@@ -359,6 +629,7 @@ export class Agent {
             prompt += '\n\nADDITIONAL USER INSTRUCTIONS:\n' + config.systemPromptAddition;
         }
         this.messages = [{ role: 'system', content: prompt }];
+        this.lastEditorContext = null;
     }
 
     // Thread management
@@ -380,6 +651,9 @@ export class Agent {
         const thread = this.storage.loadThread(id);
         if (!thread) return false;
         this.currentThread = thread;
+        // A thread without a saved choice uses the defaults, not whatever the previous thread had
+        this.profileName = thread.profile;
+        this.modeName = thread.mode;
         this.initMessages();
         this.messages.push(...thread.messages);
         this.onThreadChange?.(thread);
@@ -404,24 +678,73 @@ export class Agent {
         return this.currentThread;
     }
 
+    // Model profiles
+    listProfiles(): string[] {
+        return getProfiles().map(p => p.name);
+    }
+
+    getProfileName(): string {
+        return resolveProfile('agent', this.profileName).name;
+    }
+
+    setProfile(name: string) {
+        this.profileName = name;
+        if (this.currentThread) {
+            this.currentThread.profile = name;
+            if (this.getConfig().autoSave) this.storage.saveThread(this.currentThread);
+        }
+    }
+
+    // Chat modes
+    getMode(): ChatMode {
+        return this.modeName ?? defaultMode();
+    }
+
+    setMode(mode: ChatMode) {
+        this.modeName = mode;
+        if (this.currentThread) {
+            this.currentThread.mode = mode;
+            if (this.getConfig().autoSave) this.storage.saveThread(this.currentThread);
+        }
+    }
+
+    private activeMode(): ModeDefinition {
+        return getMode(this.turnMode ?? this.getMode());
+    }
+
+    // Unlike newThread(), keeps the messages already in flight
+    private ensureThread(): Thread {
+        if (!this.currentThread) {
+            this.currentThread = {
+                id: this.storage.generateThreadId(),
+                title: 'New Chat',
+                created: Date.now(),
+                updated: Date.now(),
+                messages: []
+            };
+            this.onThreadChange?.(this.currentThread);
+        }
+        return this.currentThread;
+    }
+
     private saveCurrentThread() {
         const config = this.getConfig();
         if (!config.autoSave) return;
         
-        if (!this.currentThread) {
-            this.currentThread = this.newThread();
-        }
-        this.currentThread.messages = this.messages.slice(1);
-        this.currentThread.updated = Date.now();
+        const thread = this.ensureThread();
+        thread.messages = this.messages.slice(1);
+        thread.updated = Date.now();
+        if (this.profileName) thread.profile = this.profileName;
+        if (this.modeName) thread.mode = this.modeName;
         
-        if (this.currentThread.title === 'New Chat') {
+        if (thread.title === 'New Chat') {
             const firstUserMsg = this.messages.find(m => m.role === 'user');
             if (firstUserMsg?.content) {
-                this.currentThread.title = firstUserMsg.content.slice(0, 50) + (firstUserMsg.content.length > 50 ? '...' : '');
+                thread.title = firstUserMsg.content.slice(0, 50) + (firstUserMsg.content.length > 50 ? '...' : '');
             }
         }
         
-        this.storage.saveThread(this.currentThread);
+        this.storage.saveThread(thread);
     }
     
     private logTool(msg: string) {
@@ -438,50 +761,149 @@ export class Agent {
 
     stop() {
         this.abortController?.abort();
+        this.fixAbort?.abort();
+        this.planAbort?.abort();
+    }
+
+    dispose() {
+        this.stop();
+        this.safety.dispose();
+        this.semanticIndex.dispose();
+        this.cache.dispose();
+        this.commandRunner.dispose();
     }
 
     private getConfig() {
         const config = vscode.workspace.getConfiguration('ai-agent');
         return {
-            apiUrl: config.get<string>('apiUrl') || 'http://127.0.0.1:1234/v1/chat/completions',
-            model: config.get<string>('model') || 'local-model',
-            temperature: config.get<number>('temperature') ?? 0.1,
-            maxTokens: config.get<number>('maxTokens') ?? 4096,
             timeout: config.get<number>('timeout') ?? 120000,
             autoSave: config.get<boolean>('autoSave') ?? true,
             systemPromptAddition: config.get<string>('systemPromptAddition') || '',
             showToolCalls: config.get<boolean>('showToolCalls') ?? true,
             confirmBeforeWrite: config.get<boolean>('confirmBeforeWrite') ?? false,
             backupBeforeWrite: config.get<boolean>('backupBeforeWrite') ?? true,
-            maxContextMessages: config.get<number>('maxContextMessages') ?? 20,
-            maxToolResultLength: config.get<number>('maxToolResultLength') ?? 2000
+            maxToolResultLength: config.get<number>('maxToolResultLength') ?? 2000,
+            commandTimeout: config.get<number>('commandTimeout') ?? 60000,
+            commandCwd: config.get<string>('commandCwd') || '',
+            commandMaxOutput: config.get<number>('commandMaxOutput') ?? 200000,
+            redactSecrets: config.get<boolean>('redactSecrets') ?? true,
+            summarizeHistory: config.get<boolean>('summarizeHistory') ?? true,
+            embeddingModel: config.get<string>('embeddingModel') || '',
+            embeddingUrl: config.get<string>('embeddingUrl') || '',
+            verifyCommand: config.get<string>('verifyCommand') || '',
+            fixMaxRounds: config.get<number>('fixMaxRounds') ?? 5,
+            fixTimeBudget: config.get<number>('fixTimeBudget') ?? 600000,
+            includeContext: config.get<boolean>('includeContext') ?? true,
+            completionModel: config.get<string>('completionModel') || '',
+            completionUrl: config.get<string>('completionUrl') || '',
+            completionMaxTokens: config.get<number>('completionMaxTokens') ?? 128,
+            completionTemplate: config.get<string>('completionTemplate') || ''
         };
     }
 
-    // Estimate tokens (rough: ~4 chars per token)
-    private estimateTokens(text: string): number {
-        return Math.ceil(text.length / 4);
+    // Everything the model sees from the user or a tool goes through here first
+    private redactForModel(text: string, source: string): string {
+        if (!this.getConfig().redactSecrets) return text;
+        const { text: redacted, count, kinds } = this.safety.redactSecrets(text);
+        if (count > 0) {
+            console.log(`[AI Agent] Redacted ${count} secret(s) from ${source}`);
+            this.onEvent?.({ type: 'secretsRedacted', count, source, kinds });
+        }
+        return redacted;
     }
 
-    // Compress messages to fit context window
-    private compressMessages(messages: Message[], maxMessages: number): Message[] {
-        if (messages.length <= maxMessages + 1) return messages;
-        
-        const systemMsg = messages[0]; // Keep system prompt
-        const recentMessages = messages.slice(-maxMessages);
-        
-        // Summarize older messages
-        const oldMessages = messages.slice(1, -maxMessages);
-        if (oldMessages.length > 0) {
-            const summary = this.summarizeMessages(oldMessages);
-            return [
-                systemMsg,
-                { role: 'system', content: `[Previous context summary: ${summary}]` },
-                ...recentMessages
-            ];
+    // Placeholders in tool arguments become the real values again before the tool runs
+    private restoreSecrets(value: any): any {
+        if (typeof value === 'string') return this.safety.restoreSecrets(value);
+        if (Array.isArray(value)) return value.map(v => this.restoreSecrets(v));
+        if (value && typeof value === 'object') {
+            return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, this.restoreSecrets(v)]));
         }
-        
-        return [systemMsg, ...recentMessages];
+        return value;
+    }
+
+    // Fit the conversation into the model's context window, summarizing what had to be left out
+    private buildContext(budget: number): Message[] {
+        const { messages, dropped, tokens } = packMessages(this.messages, budget);
+        // A summary the user edited carries their corrections, so it is sent even when nothing was dropped
+        const summary = this.currentThread?.summary;
+        if (dropped.length === 0 && !summary?.edited) return messages;
+        if (dropped.length) console.log(`[AI Agent] Context: ${messages.length} messages (~${tokens} tokens), ${dropped.length} older left out`);
+
+        // The thread summary stands in for what it covers; anything newer gets the quick heuristic
+        const covered = new Set(summary ? this.messages.slice(1, 1 + summary.covered) : []);
+        const uncovered = dropped.filter(m => !covered.has(m));
+        const notes: Message[] = [];
+        if (summary && (uncovered.length < dropped.length || summary.edited)) {
+            notes.push({ role: 'system', content: `[Summary of earlier conversation]\n${summary.text}` });
+        }
+        if (uncovered.length) {
+            notes.push({ role: 'system', content: `[Previous context summary: ${this.summarizeMessages(uncovered)}]` });
+        }
+        return [messages[0], ...notes, ...messages.slice(1)];
+    }
+
+    getThreadSummary(): ThreadSummary | null {
+        return this.currentThread?.summary || null;
+    }
+
+    setThreadSummary(text: string) {
+        const thread = this.ensureThread();
+        thread.summary = {
+            text: text.trim(),
+            covered: thread.summary?.covered ?? 0,
+            updated: Date.now(),
+            edited: true
+        };
+        this.saveCurrentThread();
+    }
+
+    /**
+     * Fold older turns into the thread's rolling summary with a separate LLM
+     * call. Runs in the background after each turn once enough unsummarized
+     * history has built up; `force` summarizes whatever is old enough now.
+     */
+    updateSummary(force: boolean = false): Promise<void> {
+        if (this.summarizing) return this.summarizing;
+        const thread = this.currentThread;
+        if (!thread || (!force && !this.getConfig().summarizeHistory)) return Promise.resolve();
+
+        const history = this.messages.slice(1);
+        const previous = thread.summary;
+        const from = Math.min(previous?.covered ?? 0, history.length);
+        const to = summaryCutoff(history, SUMMARY_KEEP_TURNS);
+        const pending = history.slice(from, to);
+        const pendingTokens = pending.reduce((sum, m) => sum + estimateMessageTokens(m), 0);
+        if (pending.length === 0 || (!force && pendingTokens < SUMMARY_MIN_TOKENS)) return Promise.resolve();
+
+        this.summarizing = (async () => {
+            const profile = resolveProfile('summary', this.profileName);
+            const controller = new AbortController();
+            const timeoutId = setTimeout(() => controller.abort(), this.getConfig().timeout);
+            try {
+                console.log(`[AI Agent] Summarizing messages ${from}-${to} of thread ${thread.id}`);
+                const res = await this.getProvider(profile).chat({
+                    model: profile.model,
+                    messages: buildSummaryRequest(previous?.text, pending),
+                    temperature: 0,
+                    maxTokens: Math.min(profile.maxTokens, 800),
+                    signal: controller.signal
+                });
+                const text = res.message.content?.trim();
+                // Skip if the thread moved on under us (switched, restored, or edited by the user)
+                if (!text || this.currentThread !== thread || thread.summary !== previous || thread.messages.length < to) return;
+
+                thread.summary = { text, covered: to, updated: Date.now() };
+                if (this.getConfig().autoSave) this.storage.saveThread(thread);
+                this.onEvent?.({ type: 'summaryUpdated', summary: thread.summary });
+            } catch (e: any) {
+                console.error('[AI Agent] Summary update failed:', e.message);
+            } finally {
+                clearTimeout(timeoutId);
+                this.summarizing = undefined;
+            }
+        })();
+        return this.summarizing;
     }
 
     private summarizeMessages(messages: Message[]): string {
@@ -494,6 +916,8 @@ export class Agent {
                     const args = JSON.parse(tc.function.arguments || '{}');
                     if (tc.function.name === 'write_file') {
                         actions.push(`Wrote file: ${args.path}`);
+                    } else if (tc.function.name === 'edit_file') {
+                        actions.push(`Edited file: ${args.path}`);
                     } else if (tc.function.name === 'read_file') {
                         actions.push(`Read file: ${args.path}`);
                     } else {
@@ -514,79 +938,124 @@ export class Agent {
         return result.slice(0, half) + '\n\n[... truncated ...]\n\n' + result.slice(-half);
     }
 
-    async testConnection(): Promise<{ success: boolean; message: string }> {
+    private getProvider(profile: ModelProfile) {
+        return createProvider(profile.provider, { apiUrl: profile.apiUrl, apiKey: profile.apiKey });
+    }
+
+    /**
+     * One-shot rewrite of a code range for inline edits: no tools and no chat
+     * history, just the replacement text.
+     */
+    async rewriteCode(request: RewriteRequest, signal?: AbortSignal): Promise<string> {
+        const profile = resolveProfile('inlineEdit', this.profileName);
+        const redact = (text: string) => this.redactForModel(text, 'the edited code');
+        const res = await this.getProvider(profile).chat({
+            model: profile.model,
+            messages: buildRewriteMessages({ ...request, code: redact(request.code), before: redact(request.before), after: redact(request.after) }),
+            temperature: profile.temperature,
+            maxTokens: profile.maxTokens,
+            signal
+        });
+        return this.safety.restoreSecrets(extractReplacement(res.message.content || ''));
+    }
+
+    /**
+     * Fill-in-the-middle completion at the cursor. Uses the agent profile's
+     * server unless `completionUrl`/`completionModel` point elsewhere.
+     */
+    async completeCode(request: FimRequest, signal?: AbortSignal): Promise<string> {
+        // Untitled documents have no path: `Untitled-1` would resolve against the host's cwd
+        if (request.filePath && !this.safety.isPathSafe(request.filePath).safe) return '';
         const config = this.getConfig();
+        const profile = resolveProfile('agent', this.profileName);
+        const model = config.completionModel || profile.model;
+
+        const key = [model, request.languageId, request.prefix.slice(-1500), request.suffix.slice(0, 500)].join('\u0000');
+        const cached = this.cache.getCompletion(key);
+        if (cached !== null) return cached;
+
+        // Redacted quietly: completions fire on every pause in typing
+        const redact = (text: string) => config.redactSecrets ? this.safety.redactSecrets(text).text : text;
+        const fim = buildFimPrompt({ ...request, prefix: redact(request.prefix), suffix: redact(request.suffix) }, config.completionTemplate);
+        const text = await createCompletion(profile.provider, { apiUrl: config.completionUrl || profile.apiUrl, apiKey: profile.apiKey }, {
+            model,
+            prompt: fim.prompt,
+            suffix: fim.suffix,
+            maxTokens: config.completionMaxTokens,
+            stop: fim.stop,
+            signal
+        });
+        const completion = trimCompletion(this.safety.restoreSecrets(text), request.suffix);
+        this.cache.setCompletion(key, completion);
+        return completion;
+    }
+
+    async testConnection(): Promise<{ success: boolean; message: string }> {
+        const profile = resolveProfile('agent', this.profileName);
         try {
-            const response = await fetch(config.apiUrl, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    model: config.model,
-                    messages: [{ role: 'user', content: 'Hi' }],
-                    max_tokens: 10
-                })
+            await this.getProvider(profile).chat({
+                model: profile.model,
+                messages: [{ role: 'user', content: 'Hi' }],
+                maxTokens: 10
             });
-            
-            if (!response.ok) {
-                const text = await response.text();
-                return { success: false, message: `HTTP ${response.status}: ${text.slice(0, 200)}` };
-            }
-            
-            const data: any = await response.json();
-            if (data.error) {
-                return { success: false, message: `API Error: ${data.error.message || JSON.stringify(data.error)}` };
-            }
-            
-            return { success: true, message: `Connected to ${config.apiUrl}\nModel: ${config.model}` };
+            return { success: true, message: `Connected to ${profile.apiUrl} (${profile.provider})\nProfile: ${profile.name}\nModel: ${profile.model}` };
         } catch (e: any) {
+            if (e.message?.startsWith('HTTP')) {
+                return { success: false, message: e.message };
+            }
             return { success: false, message: `Connection failed: ${e.message}\n\nMake sure LM Studio is running and the server is started on port 1234.` };
         }
     }
 
-    private async callLLM(): Promise<any> {
+    // `turn` is the turn's controller: a timeout ends the turn just as Stop does
+    private async callLLM(task: TaskKind, turn: AbortController): Promise<ChatResponse> {
         const config = this.getConfig();
-        this.abortController = new AbortController();
+        const profile = resolveProfile(task, this.profileName);
         
-        const timeoutId = setTimeout(() => this.abortController?.abort(), config.timeout);
+        const timeoutId = setTimeout(() => turn.abort(), config.timeout);
         
+        // Room for the prompt: the window minus the reply, the tool schemas and the summary line
+        const summaryTokens = estimateTokens(this.currentThread?.summary?.text || '');
+        const mode = this.activeMode();
+        const tools = TOOLS.filter(t => this.toolAllowed(t.function.name, mode));
+        let budget = profile.contextTokens - profile.maxTokens - estimateTokens(JSON.stringify(tools) + mode.prompt) - SUMMARY_RESERVE - summaryTokens;
+        budget = Math.max(budget, MIN_CONTEXT_BUDGET);
+
         try {
-            // Compress messages to fit context window
-            const compressedMessages = this.compressMessages(this.messages, config.maxContextMessages);
-            
-            const body = {
-                model: config.model,
-                messages: compressedMessages,
-                tools: TOOLS,
-                tool_choice: 'auto',
-                temperature: config.temperature,
-                max_tokens: config.maxTokens
-            };
-            
-            console.log('[AI Agent] Request:', config.apiUrl, 'Messages:', compressedMessages.length, '(full:', this.messages.length + ')');
-            
-            const response = await fetch(config.apiUrl, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify(body),
-                signal: this.abortController.signal
-            });
-            
-            if (!response.ok) {
-                const errorText = await response.text();
-                console.error('[AI Agent] HTTP Error:', response.status, errorText);
-                throw new Error(`HTTP ${response.status}: ${errorText.slice(0, 200)}`);
+            let res: ChatResponse;
+            for (let attempt = 0; ; attempt++) {
+                const messages = this.buildContext(budget);
+                if (mode.prompt) messages.splice(1, 0, { role: 'system', content: mode.prompt });
+                console.log('[AI Agent] Request:', `${profile.name} (${profile.model})`, profile.apiUrl, 'Messages:', messages.length, '(full:', this.messages.length + ')', 'Budget:', budget);
+
+                try {
+                    res = await this.getProvider(profile).chat({
+                        model: profile.model,
+                        messages,
+                        tools,
+                        temperature: profile.temperature,
+                        maxTokens: profile.maxTokens,
+                        signal: turn.signal,
+                        onStream: this.onStream
+                    });
+                    break;
+                } catch (e: any) {
+                    // Our estimate was too generous for this model's tokenizer or window
+                    if (!isContextLengthError(e) || attempt >= CONTEXT_RETRIES || budget <= MIN_CONTEXT_BUDGET) throw e;
+                    budget = Math.max(Math.floor(budget * 0.6), MIN_CONTEXT_BUDGET);
+                    this.log(`⚠️ Context too long for ${profile.model}, retrying with ~${budget} tokens`);
+                }
             }
             
-            const data: any = await response.json();
-            const msg = data.choices?.[0]?.message;
-            if (msg?.tool_calls?.length) {
-                console.log('[AI Agent] Response: tool_calls =', msg.tool_calls.map((tc: any) => tc.function?.name).join(', '));
-            } else if (msg?.content) {
+            const msg = res.message;
+            if (msg.tool_calls?.length) {
+                console.log('[AI Agent] Response: tool_calls =', msg.tool_calls.map(tc => tc.function.name).join(', '));
+            } else if (msg.content) {
                 console.log('[AI Agent] Response: content =', msg.content.slice(0, 100));
             } else {
-                console.log('[AI Agent] Response: unexpected format', JSON.stringify(data).slice(0, 200));
+                console.log('[AI Agent] Response: empty message');
             }
-            return data;
+            return res;
         } finally {
             clearTimeout(timeoutId);
         }
@@ -616,32 +1085,6 @@ export class Agent {
         return results;
     }
 
-    private searchInFiles(query: string, dir: string, pattern?: string): string[] {
-        const results: string[] = [];
-        const regex = new RegExp(query, 'gi');
-        const files = this.listFilesRecursive(dir);
-        
-        for (const file of files.slice(0, 100)) {
-            if (pattern && !this.matchGlob(file, pattern)) continue;
-            const fullPath = path.join(dir, file);
-            try {
-                const content = fs.readFileSync(fullPath, 'utf-8');
-                const lines = content.split('\n');
-                lines.forEach((line, i) => {
-                    if (regex.test(line)) {
-                        results.push(`${file}:${i + 1}: ${line.trim().slice(0, 100)}`);
-                    }
-                });
-            } catch {}
-        }
-        return results.slice(0, 50);
-    }
-
-    private matchGlob(file: string, pattern: string): boolean {
-        const regexPattern = pattern.replace(/\./g, '\\.').replace(/\*/g, '.*');
-        return new RegExp(regexPattern).test(file);
-    }
-
     private buildTree(dir: string, prefix: string, depth: number, maxDepth: number): string {
         if (depth >= maxDepth) return '';
         
@@ -675,6 +1118,14 @@ export class Agent {
         return lines.filter(l => l).join('\n');
     }
 
+    private symbolPosition(args: Record<string, any>): SymbolPosition {
+        return {
+            path: args.path ? this.resolvePath(args.path) : undefined,
+            line: typeof args.line === 'number' ? args.line : parseInt(args.line, 10) || undefined,
+            symbol: args.symbol
+        };
+    }
+
     private formatSymbols(symbols: vscode.DocumentSymbol[], indent: number): string {
         const lines: string[] = [];
         const kindNames: Record<number, string> = {
@@ -699,7 +1150,243 @@ export class Agent {
         return lines.join('\n');
     }
 
+    private recordChange(filePath: string, oldContent: string | null, newContent: string) {
+        this.safety.recordChange(filePath, oldContent, newContent);
+        this.planTouched?.add(path.relative(this.workspaceRoot, filePath).replace(/\\/g, '/'));
+        this.checkpoints.track(filePath, oldContent);
+    }
+
+    // Checkpoints
+    listCheckpoints(): Checkpoint[] {
+        return this.checkpoints.list();
+    }
+
+    // Roll files back to before the given checkpoint (and any later turn of its thread)
+    private async rollback(checkpoint: Checkpoint): Promise<string[]> {
+        const { checkpoints, files } = this.checkpoints.collect(checkpoint);
+        const config = this.getConfig();
+        const restored: string[] = [];
+        
+        for (const [rel, content] of files) {
+            const filePath = path.join(this.workspaceRoot, rel);
+            try {
+                if (fs.existsSync(filePath) && config.backupBeforeWrite) {
+                    await this.safety.backupFile(filePath);
+                }
+                if (content === null) {
+                    if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+                } else {
+                    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+                    fs.writeFileSync(filePath, content, 'utf-8');
+                }
+                this.cache.invalidate(filePath);
+                restored.push(rel);
+            } catch (e: any) {
+                console.error('[AI Agent] Checkpoint restore failed for', rel, e);
+            }
+        }
+        
+        checkpoints.forEach(c => this.checkpoints.remove(c.id));
+        return restored;
+    }
+
+    // A summary that covers messages which no longer exist would resurrect them
+    private dropStaleSummary(thread: Thread) {
+        if (thread.summary && thread.summary.covered > thread.messages.length) {
+            delete thread.summary;
+            if (thread === this.currentThread) this.onEvent?.({ type: 'summaryUpdated', summary: null });
+        }
+    }
+
+    // Drop the conversation from the given user message on; returns that message's text
+    private truncateThread(threadId: string, messageIndex: number): string | undefined {
+        if (this.currentThread?.id === threadId) {
+            const text = this.messages[messageIndex + 1]?.content;
+            this.messages = this.messages.slice(0, messageIndex + 1);
+            this.currentThread.messages = this.messages.slice(1);
+            this.lastEditorContext = null;
+            this.dropStaleSummary(this.currentThread);
+            this.saveCurrentThread();
+            return text;
+        }
+        const thread = this.storage.loadThread(threadId);
+        if (!thread) return undefined;
+        const text = thread.messages[messageIndex]?.content;
+        thread.messages = thread.messages.slice(0, messageIndex);
+        this.dropStaleSummary(thread);
+        thread.updated = Date.now();
+        this.storage.saveThread(thread);
+        return text;
+    }
+
+    async restoreToMessage(messageIndex: number): Promise<{ files: string[]; text?: string }> {
+        const thread = this.currentThread;
+        if (!thread) return { files: [] };
+        
+        const affected = this.checkpoints.list(thread.id).filter(c => c.messageIndex >= messageIndex);
+        const oldest = affected[affected.length - 1];
+        const files = oldest ? await this.rollback(oldest) : [];
+        return { files, text: this.truncateThread(thread.id, messageIndex) };
+    }
+
+    async restoreCheckpoint(id: string): Promise<{ files: string[]; text?: string } | null> {
+        const checkpoint = this.checkpoints.get(id);
+        if (!checkpoint) return null;
+        
+        const files = await this.rollback(checkpoint);
+        const text = checkpoint.threadId ? this.truncateThread(checkpoint.threadId, checkpoint.messageIndex) : undefined;
+        return { files, text };
+    }
+
+    // Shared write path for every editing tool: confirm, backup, write, record for undo
+    // Returns an error string, or null on success; `info` receives the line stats and hunk review summary
+    private async writeFileSafely(filePath: string, content: string, info?: { stat?: string; review?: string }, review: boolean = false): Promise<string | null> {
+        const config = this.getConfig();
+        const exists = fs.existsSync(filePath);
+        const oldContent = exists ? fs.readFileSync(filePath, 'utf-8') : null;
+        
+        if (config.confirmBeforeWrite || review) {
+            // Stop during a turn cancels the review; Apply from the chat runs outside any turn
+            const outcome = await this.safety.confirmWrite(filePath, content, this.abortController?.signal);
+            if (outcome.content === null) return `Write rejected by user in review: ${outcome.summary}. No changes were made.`;
+            if (info && outcome.total > 0) info.review = outcome.summary;
+            content = outcome.content;
+        }
+        
+        if (exists && config.backupBeforeWrite) {
+            await this.safety.backupFile(filePath);
+        }
+        
+        try {
+            fs.mkdirSync(path.dirname(filePath), { recursive: true });
+            fs.writeFileSync(filePath, content, 'utf-8');
+            console.log('[AI Agent] File written successfully:', filePath);
+        } catch (writeErr: any) {
+            console.error('[AI Agent] Write error:', writeErr);
+            return `Error writing file: ${writeErr.message}`;
+        }
+        
+        this.recordChange(filePath, oldContent, content);
+        this.cache.invalidate(filePath);
+        if (info) info.stat = this.safety.summarizeChange(oldContent, content);
+        return null;
+    }
+
+    // Code block applied from the chat: always goes through the diff review, whatever `confirmBeforeWrite` says
+    async applyCode(filePath: string, content: string): Promise<string> {
+        const check = this.safety.isPathSafe(filePath);
+        if (!check.safe) return `Error: ${check.reason}`;
+        const info: { stat?: string; review?: string } = {};
+        const error = await this.writeFileSafely(filePath, content, info, true);
+        if (error) return error;
+        const rel = path.relative(this.workspaceRoot, filePath).replace(/\\/g, '/');
+        return `✓ Applied to ${rel}${info.stat ? ` (${info.stat})` : ''}${info.review ? ` - ${info.review}` : ''}`;
+    }
+
+    // Validate every file of a patch before touching disk so a bad hunk leaves nothing half-applied
+    private async applyPatch(patch: string): Promise<string> {
+        let files;
+        try {
+            files = parseUnifiedDiff(patch);
+        } catch (e: any) {
+            return `Error: ${e.message}`;
+        }
+        if (files.length === 0) return 'Error: No file headers (--- / +++) found in patch';
+        
+        const planned: { path: string; filePath: string; content: string | null }[] = [];
+        for (const file of files) {
+            const target = file.newPath ?? file.oldPath;
+            if (!target) return 'Error: Patch has a file with no path';
+            
+            const filePath = this.resolvePath(target);
+            const pathCheck = this.safety.isPathSafe(filePath);
+            if (!pathCheck.safe) return `Error: ${target}: ${pathCheck.reason}`;
+            
+            const exists = fs.existsSync(filePath);
+            if (file.oldPath !== null && !exists) return `Error: File not found: ${target}`;
+            if (file.oldPath === null && exists) return `Error: ${target} already exists; patch it instead of creating it`;
+            
+            if (file.newPath === null) {
+                planned.push({ path: target, filePath, content: null });
+                continue;
+            }
+            
+            const original = exists ? fs.readFileSync(filePath, 'utf-8') : '';
+            const result = applyHunks(original, file.hunks);
+            if (!result.ok) return `Error: ${target}: ${result.error}. No changes were made.`;
+            planned.push({ path: target, filePath, content: result.content });
+        }
+        
+        const applied: string[] = [];
+        for (const p of planned) {
+            if (p.content === null) {
+                const result = await this.executeTool('delete_file', { path: p.path });
+                if (!result.startsWith('✓')) return `${result}\nApplied before failure: ${applied.join(', ') || 'none'}`;
+                applied.push(`deleted ${p.path}`);
+                continue;
+            }
+            const info: { stat?: string; review?: string } = {};
+            const error = await this.writeFileSafely(p.filePath, p.content, info);
+            if (error) {
+                // A rejected review is a decision, not a failure: keep going with the other files
+                if (error.startsWith('Write rejected')) {
+                    applied.push(`${p.path} (rejected)`);
+                    continue;
+                }
+                return `${error}\nApplied before failure: ${applied.join(', ') || 'none'}`;
+            }
+            applied.push(`${p.path} (${info.stat}${info.review ? `; ${info.review}` : ''})`);
+        }
+        return `✓ Patch applied: ${applied.join(', ')}`;
+    }
+
+    // Language-server edits take the same confirm/backup/undo path as apply_patch
+    private async applyEditPlan(plan: EditPlan): Promise<string> {
+        for (const file of plan.files) {
+            const pathCheck = this.safety.isPathSafe(file.filePath);
+            if (!pathCheck.safe) return `Error: ${path.relative(this.workspaceRoot, file.filePath)}: ${pathCheck.reason}. No changes were made.`;
+        }
+        
+        const applied: string[] = [];
+        for (const file of plan.files) {
+            const rel = path.relative(this.workspaceRoot, file.filePath);
+            const info: { stat?: string; review?: string } = {};
+            const error = await this.writeFileSafely(file.filePath, file.content, info);
+            if (error) {
+                if (error.startsWith('Write rejected')) {
+                    applied.push(`${rel} (rejected)`);
+                    continue;
+                }
+                return `${error}\nApplied before failure: ${applied.join(', ') || 'none'}`;
+            }
+            applied.push(`${rel} (${info.stat}${info.review ? `; ${info.review}` : ''})`);
+        }
+        const note = plan.note ? `\nNote: ${plan.note}` : '';
+        return `✓ ${plan.description}\nWritten: ${applied.join(', ')}${note}`;
+    }
+
+    // Planning turns are read-only whatever the mode
+    private toolAllowed(name: string, mode: ModeDefinition): boolean {
+        if (this.readOnly && CHANGE_TOOLS.has(name)) return false;
+        return !mode.exclude.includes(name);
+    }
+
     private async executeTool(name: string, args: Record<string, any>): Promise<string> {
+        const mode = this.activeMode();
+        if (this.readOnly && CHANGE_TOOLS.has(name)) {
+            return `Error: ${name} is not available while planning. Finish the plan; changes are made after it is approved.`;
+        }
+        if (!this.toolAllowed(name, mode)) {
+            return `Error: ${name} is not available in ${mode.label} mode. Tell the user to switch modes in the chat view if it is needed.`;
+        }
+        if (mode.approve.includes(name)) {
+            const choice = await vscode.window.showWarningMessage(
+                `${mode.label} mode: allow ${name}?`,
+                { modal: true, detail: JSON.stringify(args, null, 2).slice(0, 1000) },
+                'Allow'
+            );
+            if (choice !== 'Allow') return `Error: The user declined ${name}. Do not retry it; continue without it or ask them.`;
+        }
         try {
             switch (name) {
                 case 'list_files': {
@@ -746,32 +1433,53 @@ export class Agent {
                     const pathCheck = this.safety.isPathSafe(filePath);
                     if (!pathCheck.safe) return `Error: ${pathCheck.reason}`;
                     
-                    const config = this.getConfig();
-                    const exists = fs.existsSync(filePath);
-                    const oldContent = exists ? fs.readFileSync(filePath, 'utf-8') : null;
+                    const info: { stat?: string; review?: string } = {};
+                    const error = await this.writeFileSafely(filePath, args.content, info);
+                    if (error) return error;
                     
-                    if (config.confirmBeforeWrite) {
-                        const confirmed = await this.safety.confirmWrite(filePath, args.content);
-                        if (!confirmed) return 'Write cancelled by user';
-                    }
+                    if (info.review) return `✓ File written: ${args.path} (${info.stat}). Review: ${info.review}.`;
+                    return `✓ File written successfully: ${args.path} (${info.stat}). Task complete.`;
+                }
+                case 'edit_file': {
+                    if (!args.path) return 'Error: path is required';
+                    const edits: SearchReplace[] = Array.isArray(args.edits)
+                        ? args.edits
+                        : args.search !== undefined ? [{ search: args.search, replace: args.replace }] : [];
                     
-                    if (exists && config.backupBeforeWrite) {
-                        await this.safety.backupFile(filePath);
-                    }
+                    const filePath = this.resolvePath(args.path);
+                    const pathCheck = this.safety.isPathSafe(filePath);
+                    if (!pathCheck.safe) return `Error: ${pathCheck.reason}`;
+                    if (!fs.existsSync(filePath)) return `Error: File not found: ${args.path} (use write_file to create it)`;
                     
-                    try {
-                        fs.mkdirSync(path.dirname(filePath), { recursive: true });
-                        fs.writeFileSync(filePath, args.content, 'utf-8');
-                        console.log('[AI Agent] File written successfully:', filePath);
-                    } catch (writeErr: any) {
-                        console.error('[AI Agent] Write error:', writeErr);
-                        return `Error writing file: ${writeErr.message}`;
-                    }
+                    const result = applySearchReplace(fs.readFileSync(filePath, 'utf-8'), edits);
+                    if (!result.ok) return `Error: ${result.error}. No changes were made.`;
                     
-                    this.safety.recordChange(filePath, oldContent, args.content);
-                    this.cache.invalidate(filePath);
+                    const info: { stat?: string; review?: string } = {};
+                    const error = await this.writeFileSafely(filePath, result.content, info);
+                    if (error) return error;
                     
-                    return `✓ File written successfully: ${args.path}. Task complete.`;
+                    const note = info.review ? `. Review: ${info.review}` : '';
+                    return `✓ Applied ${edits.length} edit(s) to ${args.path} (${info.stat})${note}`;
+                }
+                case 'apply_patch': {
+                    if (!args.patch) return 'Error: patch is required';
+                    return await this.applyPatch(args.patch);
+                }
+                case 'rename_symbol': {
+                    if (!args.newName) return 'Error: newName is required';
+                    const plan = await this.refactor.rename(this.symbolPosition(args), args.newName);
+                    return typeof plan === 'string' ? plan : await this.applyEditPlan(plan);
+                }
+                case 'apply_code_action': {
+                    if (!args.path) return 'Error: path is required';
+                    const plan = await this.refactor.codeAction({
+                        path: this.resolvePath(args.path),
+                        line: args.line,
+                        endLine: args.endLine,
+                        kind: args.kind,
+                        title: args.title
+                    });
+                    return typeof plan === 'string' ? plan : await this.applyEditPlan(plan);
                 }
                 case 'delete_file': {
                     const filePath = this.resolvePath(args.path);
@@ -788,29 +1496,57 @@ export class Agent {
                     
                     const oldContent = fs.readFileSync(filePath, 'utf-8');
                     fs.unlinkSync(filePath);
-                    this.safety.recordChange(filePath, oldContent, '');
+                    this.recordChange(filePath, oldContent, '');
                     
                     return `✓ Deleted: ${args.path}`;
                 }
                 case 'search_files': {
+                    if (!args.query) return 'Error: query is required';
                     const dir = this.resolvePath(args.path);
-                    const results = this.searchInFiles(args.query, dir, args.filePattern);
-                    return results.length ? results.join('\n') : 'No matches found';
+                    if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) return `Error: Not a directory: ${args.path}`;
+                    const toList = (v: any): string[] | undefined =>
+                        v === undefined ? undefined : (Array.isArray(v) ? v : String(v).split(/[;\s]+/)).filter(Boolean);
+                    const offset = Math.max(0, args.offset || 0);
+                    const result = await this.textSearch.search({
+                        query: args.query,
+                        dir,
+                        regex: !!args.regex,
+                        caseMode: args.caseSensitive === true ? 'sensitive' : args.caseSensitive === false ? 'insensitive' : 'smart',
+                        wholeWord: !!args.wholeWord,
+                        include: toList(args.filePattern),
+                        exclude: toList(args.exclude),
+                        context: Math.min(Math.max(args.context || 0, 0), 10),
+                        offset,
+                        maxResults: Math.min(args.maxResults || 50, 200),
+                        signal: this.abortController?.signal
+                    });
+                    return formatSearchResult(result, offset);
                 }
                 case 'run_command': {
-                    const cmdCheck = this.safety.isCommandSafe(args.cmd);
-                    if (!cmdCheck.safe) return `🚫 Blocked: ${cmdCheck.reason}`;
+                    if (!args.cmd) return 'Error: cmd is required';
+                    const approval = await this.safety.approveCommand(args.cmd);
+                    if (!approval.allowed) return `🚫 Blocked: ${approval.reason}`;
                     
-                    try {
-                        const result = cp.execSync(args.cmd, { 
-                            cwd: this.workspaceRoot,
-                            encoding: 'utf-8',
-                            timeout: 30000
-                        });
-                        return result || '(no output)';
-                    } catch (e: any) {
-                        return `Exit ${e.status}: ${e.stderr || e.stdout || e.message}`;
-                    }
+                    const config = this.getConfig();
+                    const cwd = this.resolvePath(args.cwd || config.commandCwd);
+                    const cwdCheck = this.safety.isPathSafe(cwd);
+                    if (!cwdCheck.safe) return `Error: cwd: ${cwdCheck.reason}`;
+                    if (!fs.existsSync(cwd) || !fs.statSync(cwd).isDirectory()) return `Error: cwd is not a directory: ${args.cwd || config.commandCwd}`;
+                    
+                    // The model may shorten the timeout but not exceed the configured limit
+                    const timeout = Math.min(args.timeout ? args.timeout * 1000 : config.commandTimeout, config.commandTimeout);
+                    if (config.showToolCalls) this.commandRunner.show();
+                    const result = await this.commandRunner.run(args.cmd, {
+                        cwd,
+                        timeout,
+                        maxOutput: config.commandMaxOutput,
+                        signal: this.abortController?.signal
+                    });
+                    return summarizeCommandResult(result);
+                }
+                case 'show_changes': {
+                    const changes = this.safety.getSessionChanges(args.path, args.context ?? 3);
+                    return changes || 'No file changes this session';
                 }
                 case 'undo': {
                     const result = this.safety.undoLastChange();
@@ -835,13 +1571,37 @@ export class Agent {
                     return tree || '(empty project)';
                 }
                 case 'find_file': {
-                    const results = this.cache.findFiles(args.name);
-                    if (results.length === 0) return `No files found matching "${args.name}"`;
-                    return `Found ${results.length} file(s):\n${results.join('\n')}`;
+                    if (!args.name) return 'Error: name is required';
+                    const building = this.cache.isIndexing() ? ' (index still building, results may be incomplete)' : '';
+                    const results = this.cache.findFiles(args.name, 30);
+                    if (results.length === 0) return `No files found matching "${args.name}"${building}`;
+                    return `Found ${results.length} file(s), best match first${building}:\n${results.join('\n')}`;
+                }
+                case 'semantic_search': {
+                    if (!args.query) return 'Error: query is required';
+                    const config = this.getConfig();
+                    const profile = resolveProfile('agent', this.profileName);
+                    const { hits, method, note } = await this.semanticIndex.search(args.query, {
+                        apiUrl: config.embeddingUrl || profile.apiUrl,
+                        apiKey: profile.apiKey,
+                        model: config.embeddingModel
+                    }, {
+                        limit: Math.min(args.limit || 8, 20),
+                        pathPrefix: args.path,
+                        signal: this.abortController?.signal
+                    });
+                    const header = note ? `(${note})\n` : '';
+                    if (hits.length === 0) return `${header}No matches found`;
+                    return header + hits.map(h => {
+                        const lines = h.text.split('\n');
+                        const snippet = lines.slice(0, 15).join('\n') + (lines.length > 15 ? '\n...' : '');
+                        return `${h.path}:${h.startLine}-${h.endLine} (${method} ${h.score.toFixed(2)})\n${snippet}`;
+                    }).join('\n\n');
                 }
                 case 'get_cache_stats': {
                     const stats = this.cache.getStats();
-                    return `Cache Statistics:\n- Indexed files: ${stats.files}\n- Cache entries: ${stats.cacheEntries}\n- Cache size: ${stats.cacheSize}`;
+                    const semantic = this.semanticIndex.getStats();
+                    return `Cache Statistics:\n- Indexed files: ${stats.files}\n- Cache entries: ${stats.cacheEntries}\n- Cache size: ${stats.cacheSize}\n- Semantic index: ${semantic.files} files, ${semantic.chunks} chunks (${semantic.embedded} embedded)`;
                 }
                 case 'get_file_outline': {
                     const filePath = this.resolvePath(args.path);
@@ -856,6 +1616,19 @@ export class Agent {
                         return 'Could not get symbols for this file';
                     }
                 }
+                case 'go_to_definition':
+                    return this.navigator.definition(this.symbolPosition(args));
+                case 'find_references':
+                    return this.navigator.references(this.symbolPosition(args));
+                case 'workspace_symbol_search':
+                    if (!args.query) return 'Error: query is required';
+                    return this.navigator.workspaceSymbols(args.query);
+                case 'hover_info':
+                    return this.navigator.hover(this.symbolPosition(args));
+                case 'call_hierarchy':
+                    return this.navigator.callHierarchy(this.symbolPosition(args), args.direction);
+                case 'type_hierarchy':
+                    return this.navigator.typeHierarchy(this.symbolPosition(args), args.direction);
                 case 'git_status': {
                     try {
                         const result = cp.execSync('git status --short', {
@@ -899,6 +1672,10 @@ export class Agent {
                 case 'get_active_file': {
                     const editor = vscode.window.activeTextEditor;
                     if (!editor) return 'No file open';
+                    if (editor.document.uri.scheme === 'file') {
+                        const pathCheck = this.safety.isPathSafe(editor.document.uri.fsPath);
+                        if (!pathCheck.safe) return `Error: ${pathCheck.reason}`;
+                    }
                     return `File: ${editor.document.uri.fsPath}\nLanguage: ${editor.document.languageId}\n\n${editor.document.getText()}`;
                 }
                 case 'get_selection': {
@@ -956,15 +1733,265 @@ export class Agent {
         }
     }
 
-    async chat(userMessage: string): Promise<void> {
-        this.messages.push({ role: 'user', content: userMessage });
+    // @-mentions typed in the chat input
+    suggestMentions(kind: MentionKind, query: string): Promise<MentionSuggestion[]> {
+        return this.mentions.suggest(kind, query);
+    }
+
+    expandMentions(mentions: Mention[]): Promise<ContextBlock[]> {
+        return this.mentions.expand(mentions);
+    }
+
+    // Active file, cursor, selection and diagnostics for the next message (`includeContext`); null when unchanged
+    editorContext(includeSelection: boolean = true): ContextBlock | null {
+        if (!this.getConfig().includeContext) return null;
+        const context = captureEditorContext(this.workspaceRoot, p => this.safety.isPathSafe(p).safe);
+        if (!context) return null;
+        if (!includeSelection) delete context.selection;
+        const block = formatEditorContext(context, this.lastEditorContext);
+        this.lastEditorContext = context;
+        return block;
+    }
+
+    // `mode` overrides the chat's mode for this turn only (commands such as Explain Selection)
+    async chat(userMessage: string, task: TaskKind = 'agent', mode?: ChatMode): Promise<void> {
+        this.messages.push({ role: 'user', content: this.redactForModel(userMessage, 'your message') });
+        
+        // Every turn gets a checkpoint of the files it touches (Thread.messages excludes the system prompt)
+        const thread = this.ensureThread();
+        const messageIndex = this.messages.length - 2;
+        this.checkpoints.begin(userMessage, messageIndex, thread.id);
+        this.onEvent?.({ type: 'turnStarted', messageIndex });
+        this.turnMode = mode;
+        try {
+            await this.runTurn(task);
+        } finally {
+            this.abortController = undefined;
+            this.turnMode = undefined;
+            this.checkpoints.end();
+        }
+        this.updateSummary();
+    }
+
+    // Plan-then-execute
+    getPlan(): Plan | null {
+        return this.currentThread?.plan || null;
+    }
+
+    private setPlanState(plan: Plan | null) {
+        const thread = this.ensureThread();
+        if (plan) {
+            plan.updated = Date.now();
+            thread.plan = plan;
+        } else {
+            delete thread.plan;
+        }
+        this.saveCurrentThread();
+        this.onEvent?.({ type: 'planUpdated', plan });
+    }
+
+    // The newest assistant reply with text since message `from`
+    private lastReply(from: number): string | undefined {
+        for (let i = this.messages.length - 1; i >= from; i--) {
+            const m = this.messages[i];
+            if (m.role === 'assistant' && m.content) return m.content;
+        }
+        return undefined;
+    }
+
+    /**
+     * Planning turn: the model may look around with read-only tools and
+     * replies with a numbered plan, which becomes the thread's draft plan.
+     */
+    async makePlan(request: string): Promise<Plan | null> {
+        const from = this.messages.length;
+        this.readOnly = true;
+        try {
+            await this.chat(`${request}\n\n${PLAN_INSTRUCTIONS}`);
+        } finally {
+            this.readOnly = false;
+        }
+        const reply = this.lastReply(from);
+        const plan = reply ? parsePlan(request, reply) : null;
+        if (!plan) {
+            this.log('⚠️ No numbered plan found in the reply. Ask again or describe the steps yourself.');
+            return null;
+        }
+        this.setPlanState(plan);
+        return plan;
+    }
+
+    updatePlan(steps: { text: string; files: string[] | string; skip?: boolean; index?: number }[]) {
+        const plan = this.getPlan();
+        if (!plan || plan.status === 'running') return;
+        plan.steps = mergeSteps(plan, steps);
+        if (plan.status === 'done' && plan.steps.some(s => s.status === 'pending')) plan.status = 'paused';
+        this.setPlanState(plan);
+    }
+
+    discardPlan() {
+        if (this.getPlan()?.status === 'running') return;
+        this.setPlanState(null);
+    }
+
+    /**
+     * Run the approved plan one step per turn, ticking steps off. Stops for
+     * review when a step fails, changes files no step mentions, or the user
+     * stops it; running again picks up at the first unfinished step.
+     */
+    async runPlan(): Promise<void> {
+        const plan = this.getPlan();
+        if (!plan || plan.status === 'running') return;
+        this.planAbort = new AbortController();
+        plan.status = 'running';
+        this.setPlanState(plan);
+
+        try {
+            for (let i = 0; i < plan.steps.length; i++) {
+                const step = plan.steps[i];
+                if (step.status === 'done' || step.status === 'skipped') continue;
+
+                step.status = 'running';
+                step.note = undefined;
+                this.setPlanState(plan);
+                this.log(`📋 Step ${i + 1}/${plan.steps.length}: ${step.text}`);
+
+                const from = this.messages.length;
+                const touched = new Set<string>();
+                this.planTouched = touched;
+                try {
+                    // Approving the plan is approval to write, even from an Ask chat
+                    await this.chat(stepPrompt(plan, i), 'agent', this.getMode() === 'ask' ? 'edit' : undefined);
+                } finally {
+                    this.planTouched = undefined;
+                }
+
+                if (this.planAbort.signal.aborted) {
+                    step.status = 'pending';
+                    step.note = 'Stopped';
+                    plan.status = 'paused';
+                    return;
+                }
+                const failure = stepFailure(this.lastReply(from));
+                if (failure) {
+                    step.status = 'failed';
+                    step.note = failure;
+                    plan.status = 'paused';
+                    this.log(`⏸️ Step ${i + 1} failed: ${failure}. Edit the plan and run it again to continue.`);
+                    return;
+                }
+                step.status = 'done';
+                const drift = findDrift(plan, [...touched]);
+                if (drift.length) {
+                    step.note = `Changed files outside the plan: ${drift.join(', ')}`;
+                    plan.status = 'paused';
+                    this.log(`⏸️ Step ${i + 1} drifted from the plan (${drift.join(', ')}). Review the changes, then run the plan again to continue.`);
+                    return;
+                }
+                this.setPlanState(plan);
+            }
+            plan.status = 'done';
+            this.log('✅ Plan complete');
+        } finally {
+            this.planAbort = undefined;
+            if (plan.status === 'running') plan.status = 'paused';
+            this.setPlanState(plan);
+        }
+    }
+
+    /**
+     * "Fix until green": after each turn, wait for diagnostics to settle, check
+     * them (and the verify command) ourselves and send back what still fails.
+     * Ends when everything passes, the round or time budget is spent, the
+     * failures stop changing, or the user stops it.
+     */
+    async fixUntilGreen(request: string, files: string[] = [], mode?: ChatMode): Promise<void> {
+        const config = this.getConfig();
+        const started = Date.now();
+        this.fixAbort = new AbortController();
+        this.fixScope = files;
+        const report = (round: number, r: VerifyReport, outcome?: FixOutcome) => this.onEvent?.({
+            type: 'fixRound', round, maxRounds: config.fixMaxRounds,
+            errors: r.errors.length, command: r.command, commandPassed: r.commandPassed, outcome
+        });
+
+        try {
+            let current = await this.verify(files);
+            if (current.passed) {
+                report(0, current, 'green');
+                return;
+            }
+            report(0, current);
+
+            let prompt = `${request}\n\nCurrent problems:\n${formatReport(current)}`;
+            for (let round = 1; ; round++) {
+                await this.chat(prompt, 'fixFile', mode);
+                if (this.fixAbort.signal.aborted) {
+                    report(round, current, 'stopped');
+                    return;
+                }
+
+                await waitForDiagnostics(1500, 15000, this.fixAbort.signal);
+                const previous = current;
+                current = await this.verify(files);
+
+                let outcome: FixOutcome | undefined;
+                if (this.fixAbort.signal.aborted) outcome = 'stopped';
+                else if (current.passed) outcome = 'green';
+                else if (current.signature === previous.signature) outcome = 'stalled';
+                else if (round >= config.fixMaxRounds) outcome = 'maxRounds';
+                else if (Date.now() - started >= config.fixTimeBudget) outcome = 'timeout';
+                report(round, current, outcome);
+                if (outcome) return;
+
+                prompt = `Round ${round} of ${config.fixMaxRounds} is done, but checks still fail:\n${formatReport(current)}\n\nFix these. Do not undo earlier fixes that worked.`;
+            }
+        } finally {
+            this.fixScope = undefined;
+            this.fixAbort = undefined;
+        }
+    }
+
+    private async verify(files: string[]): Promise<VerifyReport> {
+        const config = this.getConfig();
+        const errors = collectErrors(this.workspaceRoot, files);
+        if (!config.verifyCommand) return buildReport(errors);
+
+        if (config.showToolCalls) this.commandRunner.show();
+        const result = await this.commandRunner.run(config.verifyCommand, {
+            cwd: this.resolvePath(config.commandCwd),
+            timeout: config.commandTimeout,
+            maxOutput: config.commandMaxOutput,
+            signal: this.fixAbort?.signal
+        });
+        return buildReport(errors, {
+            cmd: config.verifyCommand,
+            passed: result.exitCode === 0,
+            output: summarizeCommandResult(result)
+        });
+    }
+
+    // Let the language server react to an edit before the model decides what to do next
+    private async diagnosticsAfterEdit(): Promise<string> {
+        await waitForDiagnostics(1000, 8000, this.fixAbort?.signal);
+        const errors = collectErrors(this.workspaceRoot, this.fixScope);
+        if (errors.length === 0) return '\nDiagnostics now: no errors';
+        const shown = errors.slice(0, 20);
+        const more = errors.length > shown.length ? `\n... ${errors.length - shown.length} more` : '';
+        return `\nDiagnostics now (${errors.length} error(s)):\n${shown.join('\n')}${more}`;
+    }
+
+    private async runTurn(task: TaskKind): Promise<void> {
         let lastToolCall = '';
         let repeatCount = 0;
+        // One controller for the whole turn, so Stop also ends the loop and not just the current request or command
+        const turn = new AbortController();
+        this.abortController = turn;
 
         for (let i = 0; i < 10; i++) {
-            let res: any;
+            let res: ChatResponse;
             try {
-                res = await this.callLLM();
+                res = await this.callLLM(task, turn);
             } catch (e: any) {
                 if (e.name === 'AbortError') {
                     this.log('⏹️ Stopped');
@@ -975,32 +2002,36 @@ export class Agent {
                 return;
             }
 
-            if (res.error) {
-                this.log(`❌ API Error: ${res.error.message || JSON.stringify(res.error)}`);
-                return;
-            }
-
-            const msg = res.choices?.[0]?.message;
-            if (!msg) continue;
+            const msg = res.message;
 
             if (msg.tool_calls?.length) {
                 this.messages.push(msg);
                 
-                for (const tc of msg.tool_calls) {
+                // Every call needs a result or the next request is rejected, so a turn that ends early answers the rest
+                const calls = msg.tool_calls;
+                let answered = 0;
+                const answerRest = (content: string) => {
+                    for (const tc of calls.slice(answered)) this.messages.push({ role: 'tool', tool_call_id: tc.id, content });
+                };
+                for (const tc of calls) {
+                    if (turn.signal.aborted) break;
                     const name = tc.function.name;
                     let args: Record<string, any> = {};
                     try { 
-                        args = JSON.parse(tc.function.arguments || '{}'); 
+                        args = this.restoreSecrets(JSON.parse(tc.function.arguments || '{}'));
                     } catch (parseErr) {
                         console.error('[AI Agent] Failed to parse tool arguments:', tc.function.arguments, parseErr);
                     }
                     
-                    // Detect repeated identical tool calls
-                    const callSig = `${name}:${args.path || ''}`;
+                    // Detect repeated identical tool calls (successive patches to one file are normal)
+                    const callSig = FULL_ARG_TOOLS.has(name)
+                        ? `${name}:${JSON.stringify(args)}`
+                        : `${name}:${args.path || ''}`;
                     if (callSig === lastToolCall) {
                         repeatCount++;
                         if (repeatCount >= 2) {
                             console.log('[AI Agent] Breaking loop: repeated tool call detected');
+                            answerRest('Error: Not run: the same tool call was repeated');
                             this.log('Done.');
                             this.saveCurrentThread();
                             return;
@@ -1013,12 +2044,16 @@ export class Agent {
                     console.log('[AI Agent] Tool call:', name, 'Args:', JSON.stringify(args).slice(0, 200));
                     
                     const argStr = Object.entries(args)
-                        .filter(([k]) => k !== 'content')
+                        .filter(([k]) => k !== 'content' && k !== 'edits' && k !== 'patch')
                         .map(([k, v]) => `${k}=${typeof v === 'string' && v.length > 30 ? v.slice(0, 30) + '...' : v}`)
                         .join(', ');
                     this.logTool(`🔧 ${name}(${argStr})`);
                     
-                    const result = await this.executeTool(name, args);
+                    let output = await this.executeTool(name, args);
+                    if (this.fixScope && EDIT_TOOLS.has(name) && output.startsWith('✓')) {
+                        output += await this.diagnosticsAfterEdit();
+                    }
+                    const result = this.redactForModel(output, `${name} result`);
                     const preview = result.length > 400 ? result.slice(0, 400) + '...' : result;
                     this.logTool(`   ${preview}`);
                     
@@ -1026,13 +2061,21 @@ export class Agent {
                     const config = this.getConfig();
                     const truncatedResult = this.truncateToolResult(result, config.maxToolResultLength);
                     this.messages.push({ role: 'tool', tool_call_id: tc.id, content: truncatedResult });
+                    answered++;
+                }
+                if (turn.signal.aborted) {
+                    answerRest('Error: Stopped by the user');
+                    this.log('⏹️ Stopped');
+                    this.saveCurrentThread();
+                    return;
                 }
                 continue;
             }
 
             if (msg.content) {
                 this.messages.push(msg);
-                this.log(msg.content);
+                // Streamed text is already on screen
+                if (!res.streamed) this.log(msg.content);
                 this.saveCurrentThread();
                 return;
             }
@@ -1,6 +1,26 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
+import { fuzzyScore } from './fuzzy';
+
+export interface FileChange {
+    path: string;  // Absolute
+    kind: 'changed' | 'created' | 'deleted';
+}
+
+interface IndexedFile {
+    mtime: number;
+    size: number;
+}
+
+interface FileIndexData {
+    version: number;
+    files: Record<string, IndexedFile>;  // Workspace-relative path -> stat at indexing time
+}
+
+const FILE_INDEX_VERSION = 1;
+const MAX_COMPLETIONS = 100;
+const IGNORE_DIRS = ['.git', 'node_modules', '.ai-agent', 'out', 'dist', '__pycache__', '.next', 'vendor'];
 
 interface CacheEntry<T> {
     value: T;
@@ -10,16 +30,28 @@ interface CacheEntry<T> {
 
 export class Cache {
     private cache = new Map<string, CacheEntry<any>>();
-    private fileIndex: Map<string, string[]> = new Map();
+    private completions = new Map<string, string>();
+    private fileIndex = new Map<string, IndexedFile>();
+    private indexFile: string;
+    private indexReady: Promise<void>;
+    private indexing = false;
+    private saveTimer?: NodeJS.Timeout;
+    private indexStatus?: vscode.StatusBarItem;
     private projectTree: string = '';
     private projectTreeTimestamp = 0;
     private workspaceRoot: string;
     private fileWatcher?: vscode.FileSystemWatcher;
+    private fileChangeEmitter = new vscode.EventEmitter<FileChange>();
+    // Lets indexes built on top of the cache (e.g. semantic search) update incrementally
+    readonly onDidChangeFile = this.fileChangeEmitter.event;
 
     constructor(workspaceRoot: string) {
         this.workspaceRoot = workspaceRoot;
+        this.indexFile = path.join(workspaceRoot, '.ai-agent', 'file-index.json');
+        // The saved index answers queries at once; the async scan then brings it up to date
+        this.loadFileIndex();
         this.setupFileWatcher();
-        this.buildFileIndex();
+        this.indexReady = this.buildFileIndex();
     }
 
     private setupFileWatcher() {
@@ -32,14 +64,20 @@ export class Cache {
             this.projectTreeTimestamp = 0; // Invalidate tree
         };
 
-        this.fileWatcher.onDidChange(invalidate);
+        this.fileWatcher.onDidChange((uri) => {
+            invalidate(uri);
+            this.addToIndex(uri.fsPath);
+            this.fileChangeEmitter.fire({ path: uri.fsPath, kind: 'changed' });
+        });
         this.fileWatcher.onDidCreate((uri) => {
             invalidate(uri);
             this.addToIndex(uri.fsPath);
+            this.fileChangeEmitter.fire({ path: uri.fsPath, kind: 'created' });
         });
         this.fileWatcher.onDidDelete((uri) => {
             invalidate(uri);
             this.removeFromIndex(uri.fsPath);
+            this.fileChangeEmitter.fire({ path: uri.fsPath, kind: 'deleted' });
         });
     }
 
@@ -109,75 +147,166 @@ export class Cache {
         this.projectTreeTimestamp = Date.now();
     }
 
-    // File index for fast search
-    private buildFileIndex(): void {
-        this.fileIndex.clear();
-        this.indexDirectory(this.workspaceRoot);
+    // Inline completion cache: small LRU keyed by model and the text around the cursor
+    getCompletion(key: string): string | null {
+        const text = this.completions.get(key);
+        if (text === undefined) return null;
+        this.completions.delete(key);
+        this.completions.set(key, text);
+        return text;
     }
 
-    private indexDirectory(dir: string): void {
-        const ignoreDirs = ['.git', 'node_modules', '.ai-agent', 'out', 'dist', '__pycache__', '.next', 'vendor'];
-        
+    setCompletion(key: string, text: string): void {
+        this.completions.delete(key);
+        this.completions.set(key, text);
+        if (this.completions.size > MAX_COMPLETIONS) {
+            this.completions.delete(this.completions.keys().next().value!);
+        }
+    }
+
+    // Persistent file index (.ai-agent/file-index.json)
+    private loadFileIndex(): void {
         try {
-            const entries = fs.readdirSync(dir, { withFileTypes: true });
+            const data: FileIndexData = JSON.parse(fs.readFileSync(this.indexFile, 'utf-8'));
+            if (data.version !== FILE_INDEX_VERSION) return;
+            for (const [rel, info] of Object.entries(data.files)) this.fileIndex.set(rel, info);
+            console.log('[AI Agent Cache] Loaded file index:', this.fileIndex.size, 'files');
+        } catch {}
+    }
+
+    private saveFileIndex(): void {
+        try {
+            fs.mkdirSync(path.dirname(this.indexFile), { recursive: true });
+            const data: FileIndexData = { version: FILE_INDEX_VERSION, files: Object.fromEntries(this.fileIndex) };
+            fs.writeFileSync(this.indexFile, JSON.stringify(data), 'utf-8');
+        } catch (err) {
+            console.error('[AI Agent Cache] Failed to save file index:', err);
+        }
+    }
+
+    // Watcher events arrive in bursts (git checkout, npm install); write once they settle
+    private scheduleSave(): void {
+        clearTimeout(this.saveTimer);
+        this.saveTimer = setTimeout(() => this.saveFileIndex(), 2000);
+    }
+
+    private isIgnored(rel: string): boolean {
+        return rel.split(/[\/\\]/).some(part =>
+            IGNORE_DIRS.includes(part) || (part.startsWith('.') && part !== '.env.example')
+        );
+    }
+
+    // Walks the workspace without blocking the extension host, reporting progress in the status bar
+    private async buildFileIndex(): Promise<void> {
+        this.indexing = true;
+        const started = Date.now();
+        const seen = new Map<string, IndexedFile>();
+        let changed = 0;
+
+        // Only worth a status bar entry when the scan takes a moment
+        const showTimer = setTimeout(() => {
+            this.indexStatus = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 0);
+            this.indexStatus.text = '$(sync~spin) Indexing files';
+            this.indexStatus.tooltip = 'AI Agent is indexing workspace files';
+            this.indexStatus.show();
+        }, 500);
+
+        const walk = async (dir: string): Promise<void> => {
+            let entries: fs.Dirent[];
+            try {
+                entries = await fs.promises.readdir(dir, { withFileTypes: true });
+            } catch {
+                return;
+            }
             for (const entry of entries) {
-                if (entry.name.startsWith('.') && entry.name !== '.env.example') continue;
-                if (ignoreDirs.includes(entry.name)) continue;
-                
-                const fullPath = path.join(dir, entry.name);
+                const full = path.join(dir, entry.name);
+                const rel = path.relative(this.workspaceRoot, full);
+                if (this.isIgnored(rel)) continue;
+
                 if (entry.isDirectory()) {
-                    this.indexDirectory(fullPath);
-                } else {
-                    this.addToIndex(fullPath);
+                    await walk(full);
+                } else if (entry.isFile()) {
+                    try {
+                        const stats = await fs.promises.stat(full);
+                        const info = { mtime: stats.mtimeMs, size: stats.size };
+                        const known = this.fileIndex.get(rel);
+                        if (!known || known.mtime !== info.mtime || known.size !== info.size) changed++;
+                        seen.set(rel, info);
+                        this.fileIndex.set(rel, info);
+                    } catch {}
+                    if (this.indexStatus && seen.size % 200 === 0) {
+                        this.indexStatus.text = `$(sync~spin) Indexing ${seen.size} files`;
+                    }
                 }
             }
-        } catch {}
+        };
+
+        try {
+            await walk(this.workspaceRoot);
+            // Anything the saved index knew about that is gone now
+            for (const rel of [...this.fileIndex.keys()]) {
+                if (!seen.has(rel) && !fs.existsSync(path.join(this.workspaceRoot, rel))) {
+                    this.fileIndex.delete(rel);
+                    changed++;
+                }
+            }
+            if (changed > 0) this.saveFileIndex();
+            console.log(`[AI Agent Cache] Indexed ${this.fileIndex.size} files (${changed} changed) in ${Date.now() - started}ms`);
+        } finally {
+            clearTimeout(showTimer);
+            this.indexStatus?.dispose();
+            this.indexStatus = undefined;
+            this.indexing = false;
+        }
+    }
+
+    // Resolves once the startup scan has finished
+    whenIndexed(): Promise<void> {
+        return this.indexReady;
+    }
+
+    isIndexing(): boolean {
+        return this.indexing;
     }
 
     private addToIndex(filePath: string): void {
-        const name = path.basename(filePath).toLowerCase();
-        const existing = this.fileIndex.get(name) || [];
-        if (!existing.includes(filePath)) {
-            existing.push(filePath);
-            this.fileIndex.set(name, existing);
-        }
+        const rel = path.relative(this.workspaceRoot, filePath);
+        if (!rel || rel.startsWith('..') || this.isIgnored(rel)) return;
+        try {
+            const stats = fs.statSync(filePath);
+            if (!stats.isFile()) return;
+            this.fileIndex.set(rel, { mtime: stats.mtimeMs, size: stats.size });
+            this.scheduleSave();
+        } catch {}
     }
 
     private removeFromIndex(filePath: string): void {
-        const name = path.basename(filePath).toLowerCase();
-        const existing = this.fileIndex.get(name);
-        if (existing) {
-            const idx = existing.indexOf(filePath);
-            if (idx >= 0) {
-                existing.splice(idx, 1);
-                if (existing.length === 0) {
-                    this.fileIndex.delete(name);
-                }
-            }
+        const rel = path.relative(this.workspaceRoot, filePath);
+        let removed = this.fileIndex.delete(rel);
+        // A deleted folder only produces one event for itself
+        const prefix = rel + path.sep;
+        for (const key of [...this.fileIndex.keys()]) {
+            if (key.startsWith(prefix)) removed = this.fileIndex.delete(key) || removed;
         }
+        if (removed) this.scheduleSave();
     }
 
-    // Fast file search by name
-    findFiles(query: string): string[] {
-        const lowerQuery = query.toLowerCase();
-        const results: string[] = [];
-        
-        for (const [name, paths] of this.fileIndex.entries()) {
-            if (name.includes(lowerQuery)) {
-                results.push(...paths.map(p => path.relative(this.workspaceRoot, p)));
-            }
+    // Fuzzy, path-aware file search (like Ctrl+P): "agtcv" finds src/agent/chatView.ts
+    findFiles(query: string, limit: number = 50): string[] {
+        const scored: { rel: string; score: number }[] = [];
+        for (const rel of this.fileIndex.keys()) {
+            const score = fuzzyScore(query, rel);
+            if (score !== null) scored.push({ rel, score });
         }
-        
-        return results.slice(0, 50);
+        return scored
+            .sort((a, b) => b.score - a.score || a.rel.length - b.rel.length)
+            .slice(0, limit)
+            .map(s => s.rel);
     }
 
-    // Get all indexed files
+    // Get all indexed files (workspace-relative)
     getAllFiles(): string[] {
-        const all: string[] = [];
-        for (const paths of this.fileIndex.values()) {
-            all.push(...paths.map(p => path.relative(this.workspaceRoot, p)));
-        }
-        return all;
+        return [...this.fileIndex.keys()];
     }
 
     getStats(): { files: number; cacheEntries: number; cacheSize: string } {
@@ -194,8 +323,15 @@ export class Cache {
     }
 
     dispose(): void {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            this.saveFileIndex();
+        }
+        this.indexStatus?.dispose();
         this.fileWatcher?.dispose();
+        this.fileChangeEmitter.dispose();
         this.cache.clear();
+        this.completions.clear();
         this.fileIndex.clear();
     }
 }
@@ -1,6 +1,13 @@
 import * as vscode from 'vscode';
-import { Agent } from './agent';
+import * as path from 'path';
+import { Agent, AgentEvent } from './agent';
+import { StreamEvent } from './providers';
 import { Thread } from './storage';
+import { TaskKind } from './profiles';
+import { CHAT_MODES, ChatMode, getMode, isChatMode } from './modes';
+import { RewriteRequest } from './inlineEdit';
+import { FimRequest } from './completion';
+import { attachBlocks, isMentionKind, Mention, MENTION_KINDS, splitAttachments } from './mentions';
 
 export class ChatViewProvider implements vscode.WebviewViewProvider {
     public static readonly viewType = 'ai-agent.chatView';
@@ -11,7 +18,9 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     constructor(private readonly extensionUri: vscode.Uri) {
         this.agent = new Agent(
             (msg) => this.postMessage({ type: 'response', text: msg }),
-            (thread) => this.postMessage({ type: 'threadChanged', thread })
+            (thread) => this.postMessage({ type: 'threadChanged', thread }),
+            (event) => this.postStreamEvent(event),
+            (event) => this.postAgentEvent(event)
         );
         this.statusBar = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
         this.statusBar.text = '$(hubot) AI Agent';
@@ -24,6 +33,58 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         this.webviewView?.webview.postMessage(message);
     }
 
+    private postStreamEvent(event: StreamEvent) {
+        switch (event.type) {
+            case 'start':
+                this.postMessage({ type: 'streamStart' });
+                break;
+            case 'delta':
+                this.postMessage({ type: 'streamDelta', text: event.text });
+                break;
+            case 'end':
+                this.postMessage({ type: 'streamEnd' });
+                break;
+        }
+    }
+
+    private postAgentEvent(event: AgentEvent) {
+        switch (event.type) {
+            case 'turnStarted':
+                this.postMessage({ type: 'turnStarted', index: event.messageIndex });
+                break;
+            case 'summaryUpdated':
+                this.postMessage({ type: 'summary', summary: event.summary });
+                break;
+            case 'planUpdated':
+                this.postMessage({ type: 'plan', plan: event.plan });
+                break;
+            case 'fixRound':
+                this.postMessage({ type: 'fixRound', text: this.describeFixRound(event), outcome: event.outcome });
+                break;
+            case 'secretsRedacted':
+                this.postMessage({
+                    type: 'warning',
+                    text: `🔒 Redacted ${event.count} possible secret${event.count === 1 ? '' : 's'} (${event.kinds.join(', ')}) from ${event.source} before sending it to the model`
+                });
+                break;
+        }
+    }
+
+    private describeFixRound(event: Extract<AgentEvent, { type: 'fixRound' }>): string {
+        const checks = [`${event.errors} error${event.errors === 1 ? '' : 's'}`];
+        if (event.command) checks.push(`\`${event.command}\` ${event.commandPassed ? 'passed' : 'failed'}`);
+        const state = event.round === 0 ? 'Fix until green, starting' : `Round ${event.round}/${event.maxRounds}`;
+        const line = `${state}: ${checks.join(', ')}`;
+        switch (event.outcome) {
+            case 'green': return event.round === 0 ? `✅ Nothing to fix: ${checks.join(', ')}` : `✅ ${line}. All green.`;
+            case 'stalled': return `⏸️ ${line}. Stopping: no progress since the last round.`;
+            case 'maxRounds': return `🛑 ${line}. Stopping: round limit reached.`;
+            case 'timeout': return `⏱️ ${line}. Stopping: time budget used up.`;
+            case 'stopped': return `⏹️ ${line}. Stopped.`;
+            default: return `🔁 ${line}`;
+        }
+    }
+
     private setStatus(status: 'idle' | 'thinking' | 'error') {
         switch (status) {
             case 'thinking':
@@ -51,6 +112,20 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         return this.agent.testConnection();
     }
 
+    async rewriteCode(request: RewriteRequest, signal: AbortSignal): Promise<string> {
+        this.setStatus('thinking');
+        try {
+            return await this.agent.rewriteCode(request, signal);
+        } finally {
+            this.setStatus('idle');
+        }
+    }
+
+    // No status change: completions run in the background while the user types
+    completeCode(request: FimRequest, signal: AbortSignal): Promise<string> {
+        return this.agent.completeCode(request, signal);
+    }
+
     resolveWebviewView(webviewView: vscode.WebviewView) {
         this.webviewView = webviewView;
         webviewView.webview.options = { enableScripts: true };
@@ -62,10 +137,29 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                 switch (data.type) {
                     case 'send':
                         this.setStatus('thinking');
-                        await this.agent.chat(data.text);
+                        await this.agent.chat(await this.withContext(data.text, data.mentions));
                         this.postMessage({ type: 'done' });
                         this.setStatus('idle');
                         break;
+                    case 'plan':
+                        this.setStatus('thinking');
+                        await this.agent.makePlan(await this.withContext(data.text, data.mentions));
+                        this.postMessage({ type: 'done' });
+                        this.setStatus('idle');
+                        break;
+                    case 'updatePlan':
+                        this.agent.updatePlan(data.steps || []);
+                        break;
+                    case 'runPlan':
+                        this.agent.updatePlan(data.steps || []);
+                        this.setStatus('thinking');
+                        await this.agent.runPlan();
+                        this.postMessage({ type: 'done' });
+                        this.setStatus('idle');
+                        break;
+                    case 'discardPlan':
+                        this.agent.discardPlan();
+                        break;
                     case 'clear':
                         this.agent.clearHistory();
                         break;
@@ -79,6 +173,8 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                     case 'loadThread':
                         this.agent.loadThread(data.id);
                         this.postMessage({ type: 'threadLoaded', messages: this.getThreadMessages() });
+                        this.postProfiles();
+                        this.postModes();
                         break;
                     case 'deleteThread':
                         this.agent.deleteThread(data.id);
@@ -87,6 +183,20 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                     case 'getThreads':
                         this.postMessage({ type: 'threadsUpdated', threads: this.agent.listThreads() });
                         break;
+                    case 'getProfiles':
+                        this.postProfiles();
+                        break;
+                    case 'setProfile':
+                        this.agent.setProfile(data.name);
+                        this.postProfiles();
+                        break;
+                    case 'getModes':
+                        this.postModes();
+                        break;
+                    case 'setMode':
+                        if (isChatMode(data.mode)) this.agent.setMode(data.mode);
+                        this.postModes();
+                        break;
                     case 'openSettings':
                         vscode.commands.executeCommand('workbench.action.openSettings', 'ai-agent');
                         break;
@@ -101,13 +211,44 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                             this.postMessage({ type: 'response', text: 'FAILED: ' + result.message });
                         }
                         break;
+                    case 'restoreToMessage':
+                        await this.restoreToMessage(data.index);
+                        break;
                     case 'exportChat':
                         await this.exportChat();
                         break;
+                    case 'saveSummary':
+                        this.agent.setThreadSummary(data.text || '');
+                        this.postMessage({ type: 'summary', summary: this.agent.getThreadSummary() });
+                        break;
+                    case 'refreshSummary': {
+                        const before = this.agent.getThreadSummary();
+                        this.postMessage({ type: 'response', text: 'Summarizing conversation...' });
+                        await this.agent.updateSummary(true);
+                        const after = this.agent.getThreadSummary();
+                        if (after === before) this.postMessage({ type: 'response', text: 'Nothing new to summarize yet (the latest turns are kept verbatim)' });
+                        this.postMessage({ type: 'summary', summary: after });
+                        break;
+                    }
+                    case 'mentionQuery':
+                        if (isMentionKind(data.kind)) {
+                            const items = await this.agent.suggestMentions(data.kind, String(data.query || ''));
+                            this.postMessage({ type: 'mentionSuggestions', seq: data.seq, items });
+                        }
+                        break;
                     case 'copyCode':
                         await vscode.env.clipboard.writeText(data.code);
                         vscode.window.showInformationMessage('Code copied to clipboard');
                         break;
+                    case 'insertCode':
+                        await this.insertCode(data.code);
+                        break;
+                    case 'applyCode':
+                        await this.applyCode(data.code, data.path);
+                        break;
+                    case 'newFileCode':
+                        await this.openInNewFile(data.code, data.language);
+                        break;
                 }
             } catch (e: any) {
                 console.error('[AI Agent] Error:', e);
@@ -118,7 +259,150 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 
         setTimeout(() => {
             this.postMessage({ type: 'threadsUpdated', threads: this.agent.listThreads() });
+            this.postProfiles();
+            this.postModes();
+            this.postMessage({ type: 'summary', summary: this.agent.getThreadSummary() });
+            this.postMessage({ type: 'plan', plan: this.agent.getPlan() });
         }, 100);
+
+        const configListener = vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('ai-agent')) {
+                this.postProfiles();
+                this.postModes();
+            }
+        });
+        webviewView.onDidDispose(() => configListener.dispose());
+    }
+
+    // Editor context and the chips sent with a message become blocks after its text; the chat shows what went in
+    private async withContext(text: string, mentions: unknown): Promise<string> {
+        const valid = (Array.isArray(mentions) ? mentions : []).filter((m): m is Mention => !!m && isMentionKind(m.kind));
+        const editor = this.agent.editorContext(!valid.some(m => m.kind === 'selection'));
+        const blocks = [...(editor ? [editor] : []), ...await this.agent.expandMentions(valid)];
+        if (blocks.length === 0) return text;
+        this.postMessage({ type: 'attached', blocks });
+        return attachBlocks(text, blocks);
+    }
+
+    // Code block actions
+    private async insertCode(code: string) {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            vscode.window.showErrorMessage('No file open');
+            return;
+        }
+        await editor.edit(b => b.replace(editor.selection, code));
+    }
+
+    // Writes to the block's file (```ts src/a.ts) or the active file: the selection there is replaced, otherwise the whole file
+    private async applyCode(code: string, target?: string) {
+        const editor = vscode.window.activeTextEditor;
+        const root = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        const filePath = target && root ? path.resolve(root, target)
+            : editor?.document.uri.scheme === 'file' ? editor.document.uri.fsPath : undefined;
+        if (!filePath) {
+            vscode.window.showErrorMessage('Open the file to apply the code to');
+            return;
+        }
+
+        let content = code;
+        const doc = vscode.workspace.textDocuments.find(d => d.uri.scheme === 'file' && d.uri.fsPath === filePath);
+        if (doc?.isDirty) {
+            vscode.window.showWarningMessage(`Save ${path.basename(filePath)} first; Apply writes the file on disk`);
+            return;
+        }
+        if (doc && editor?.document === doc && !editor.selection.isEmpty) {
+            const text = doc.getText();
+            content = text.slice(0, doc.offsetAt(editor.selection.start)) + code + text.slice(doc.offsetAt(editor.selection.end));
+        }
+
+        const result = await this.agent.applyCode(filePath, content);
+        if (result.startsWith('✓')) vscode.window.showInformationMessage(result);
+        else vscode.window.showWarningMessage(result);
+    }
+
+    private async openInNewFile(code: string, language: string) {
+        const aliases: Record<string, string> = {
+            ts: 'typescript', tsx: 'typescriptreact', js: 'javascript', jsx: 'javascriptreact', py: 'python',
+            sh: 'shellscript', bash: 'shellscript', zsh: 'shellscript', shell: 'shellscript', yml: 'yaml',
+            md: 'markdown', rb: 'ruby', rs: 'rust', cs: 'csharp', 'c++': 'cpp', kt: 'kotlin', ps1: 'powershell'
+        };
+        const id = aliases[language.toLowerCase()] || language.toLowerCase();
+        const known = id && (await vscode.languages.getLanguages()).includes(id);
+        const doc = await vscode.workspace.openTextDocument({ content: code, language: known ? id : 'plaintext' });
+        await vscode.window.showTextDocument(doc, { preview: false });
+    }
+
+    private postProfiles() {
+        this.postMessage({
+            type: 'profilesUpdated',
+            profiles: this.agent.listProfiles(),
+            current: this.agent.getProfileName()
+        });
+    }
+
+    private postModes() {
+        this.postMessage({
+            type: 'modesUpdated',
+            modes: CHAT_MODES.map(m => ({ name: m, label: getMode(m).label, prompt: getMode(m).prompt })),
+            current: this.agent.getMode()
+        });
+    }
+
+    private async restoreToMessage(index: number) {
+        const confirm = await vscode.window.showWarningMessage(
+            'Restore files and conversation to before this message? Later changes made by the agent in this chat are rolled back.',
+            { modal: true },
+            'Restore'
+        );
+        if (confirm !== 'Restore') return;
+
+        const result = await this.agent.restoreToMessage(index);
+        this.postMessage({ type: 'threadLoaded', messages: this.getThreadMessages() });
+        if (result.text) this.postMessage({ type: 'setInput', text: splitAttachments(result.text).text });
+        vscode.window.showInformationMessage(
+            result.files.length ? `Restored ${result.files.length} file(s): ${result.files.join(', ')}` : 'Conversation restored (no files to roll back)'
+        );
+    }
+
+    // Command entry point: pick any saved checkpoint, including ones from earlier sessions
+    async restoreCheckpoint() {
+        const checkpoints = this.agent.listCheckpoints();
+        if (checkpoints.length === 0) {
+            vscode.window.showInformationMessage('No checkpoints saved');
+            return;
+        }
+
+        const threads = new Map(this.agent.listThreads().map(t => [t.id, t.title]));
+        const picked = await vscode.window.showQuickPick(
+            checkpoints.map(c => {
+                const files = Object.keys(c.files);
+                return {
+                    label: c.label,
+                    description: `${new Date(c.created).toLocaleString()} · ${files.length} file(s)`,
+                    detail: `${c.threadId ? (threads.get(c.threadId) || c.threadId) + ': ' : ''}${files.join(', ')}`,
+                    id: c.id
+                };
+            }),
+            { title: 'Restore checkpoint', placeHolder: 'Files are restored to before the selected turn', matchOnDetail: true }
+        );
+        if (!picked) return;
+
+        const confirm = await vscode.window.showWarningMessage(
+            `Restore to before "${picked.label}"? Later checkpoints from the same chat are rolled back too.`,
+            { modal: true },
+            'Restore'
+        );
+        if (confirm !== 'Restore') return;
+
+        const result = await this.agent.restoreCheckpoint(picked.id);
+        if (!result) {
+            vscode.window.showErrorMessage('Checkpoint not found');
+            return;
+        }
+        this.postMessage({ type: 'threadLoaded', messages: this.getThreadMessages() });
+        this.postMessage({ type: 'threadsUpdated', threads: this.agent.listThreads() });
+        vscode.window.showInformationMessage(`Restored ${result.files.length} file(s)`);
     }
 
     private async exportChat() {
@@ -157,7 +441,13 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     private getThreadMessages(): any[] {
         const thread = this.agent.getCurrentThread();
         if (!thread) return [];
-        return thread.messages.filter(m => m.role === 'user' || (m.role === 'assistant' && m.content));
+        return thread.messages
+            .map((m, index) => {
+                if (m.role !== 'user') return { role: m.role, content: m.content, index };
+                const { text, blocks } = splitAttachments(m.content || '');
+                return { role: m.role, content: text, attachments: blocks, index };
+            })
+            .filter(m => m.role === 'user' || (m.role === 'assistant' && m.content));
     }
 
     private getHtml(): string {
@@ -182,6 +472,21 @@ body {
     border-bottom: 1px solid var(--vscode-panel-border);
     align-items: center;
 }
+#profile-select { 
+    max-width: 35%;
+    padding: 4px 8px; 
+    background: var(--vscode-input-background); 
+    color: var(--vscode-input-foreground); 
+    border: 1px solid var(--vscode-input-border); 
+    border-radius: 4px; 
+}
+#mode-select { 
+    padding: 4px 8px; 
+    background: var(--vscode-input-background); 
+    color: var(--vscode-input-foreground); 
+    border: 1px solid var(--vscode-input-border); 
+    border-radius: 4px; 
+}
 #thread-select { 
     flex: 1;
     padding: 4px 8px; 
@@ -200,6 +505,77 @@ body {
     font-size: 12px;
 }
 .btn:hover { background: var(--vscode-button-secondaryHoverBackground); }
+#summary-panel { 
+    display: flex; 
+    flex-direction: column; 
+    gap: 6px; 
+    padding: 8px; 
+    border-bottom: 1px solid var(--vscode-panel-border); 
+}
+#summary-panel[hidden] { display: none; }
+#summary-meta { 
+    font-size: 11px; 
+    color: var(--vscode-descriptionForeground); 
+}
+#summary-text { 
+    padding: 6px; 
+    border: 1px solid var(--vscode-input-border); 
+    background: var(--vscode-input-background); 
+    color: var(--vscode-input-foreground); 
+    border-radius: 4px; 
+    font-family: inherit; 
+    font-size: 12px; 
+    resize: vertical; 
+}
+.summary-actions { display: flex; gap: 6px; }
+.plan-toggle.active { 
+    background: var(--vscode-button-background); 
+    color: var(--vscode-button-foreground); 
+}
+#plan-panel { 
+    display: flex; 
+    flex-direction: column; 
+    gap: 6px; 
+    max-height: 45%; 
+    overflow-y: auto; 
+    padding: 8px; 
+    border-top: 1px solid var(--vscode-panel-border); 
+}
+#plan-panel[hidden] { display: none; }
+#plan-meta { 
+    font-size: 11px; 
+    color: var(--vscode-descriptionForeground); 
+}
+.plan-step { 
+    display: grid; 
+    grid-template-columns: 18px 1fr auto auto; 
+    gap: 4px; 
+    align-items: start; 
+}
+.plan-step input { 
+    width: 100%; 
+    padding: 3px 6px; 
+    border: 1px solid var(--vscode-input-border); 
+    background: var(--vscode-input-background); 
+    color: var(--vscode-input-foreground); 
+    border-radius: 3px; 
+    font-family: inherit; 
+    font-size: 12px; 
+}
+.plan-step .files { 
+    grid-column: 2; 
+    font-size: 11px; 
+}
+.plan-step .note { 
+    grid-column: 2 / 5; 
+    font-size: 11px; 
+    color: var(--vscode-editorWarning-foreground); 
+}
+.plan-step.done .text { text-decoration: line-through; opacity: 0.7; }
+.plan-step.skipped { opacity: 0.5; }
+.plan-step.running .icon { color: var(--vscode-progressBar-background); }
+.plan-step.failed .icon { color: var(--vscode-testing-iconFailed); }
+.plan-actions { display: flex; gap: 6px; }
 #messages { 
     flex: 1; 
     overflow-y: auto; 
@@ -215,9 +591,19 @@ body {
     word-wrap: break-word;
 }
 .user { 
+    position: relative;
     background: var(--vscode-input-background); 
     border-left: 3px solid var(--vscode-focusBorder); 
 }
+.restore { 
+    position: absolute; 
+    top: 4px; 
+    right: 4px; 
+    display: none; 
+    padding: 2px 6px; 
+    font-size: 11px; 
+}
+.user:hover .restore { display: block; }
 .assistant { 
     background: var(--vscode-editor-background); 
     border: 1px solid var(--vscode-panel-border); 
@@ -237,12 +623,96 @@ body {
     font-style: italic; 
     padding: 4px 8px; 
 }
+.fix-round { 
+    font-size: 11px; 
+    border-left: 3px solid var(--vscode-focusBorder); 
+    padding: 4px 8px; 
+}
+.fix-round.green { border-left-color: var(--vscode-testing-iconPassed); }
+.fix-round.failed { border-left-color: var(--vscode-testing-iconFailed); }
+.warning { 
+    font-size: 11px; 
+    color: var(--vscode-editorWarning-foreground); 
+    border-left: 3px solid var(--vscode-editorWarning-foreground); 
+    padding: 4px 8px; 
+}
 #input-area { 
+    position: relative;
     display: flex; 
     gap: 8px; 
     padding: 8px; 
     border-top: 1px solid var(--vscode-panel-border); 
 }
+#input-box { 
+    flex: 1; 
+    display: flex; 
+    flex-direction: column; 
+    gap: 4px; 
+}
+#chips { 
+    display: flex; 
+    flex-wrap: wrap; 
+    gap: 4px; 
+}
+#chips:empty { display: none; }
+.chip { 
+    display: inline-flex; 
+    align-items: center; 
+    gap: 4px; 
+    padding: 1px 6px; 
+    font-size: 11px; 
+    background: var(--vscode-badge-background); 
+    color: var(--vscode-badge-foreground); 
+    border-radius: 10px; 
+}
+.chip button { 
+    background: none; 
+    border: none; 
+    color: inherit; 
+    cursor: pointer; 
+    font-size: 10px; 
+}
+#mention-menu { 
+    position: absolute; 
+    left: 8px; 
+    right: 8px; 
+    bottom: 100%; 
+    max-height: 200px; 
+    overflow-y: auto; 
+    background: var(--vscode-editorSuggestWidget-background); 
+    border: 1px solid var(--vscode-editorSuggestWidget-border); 
+    border-radius: 4px; 
+    z-index: 10; 
+}
+#mention-menu[hidden] { display: none; }
+.mention-item { 
+    display: flex; 
+    gap: 8px; 
+    padding: 3px 8px; 
+    font-size: 12px; 
+    cursor: pointer; 
+}
+.mention-item.active { 
+    background: var(--vscode-editorSuggestWidget-selectedBackground); 
+    color: var(--vscode-editorSuggestWidget-selectedForeground); 
+}
+.mention-item .detail { 
+    color: var(--vscode-descriptionForeground); 
+    overflow: hidden; 
+    text-overflow: ellipsis; 
+    white-space: nowrap; 
+}
+.attachments { 
+    margin-top: 4px; 
+    font-size: 11px; 
+    color: var(--vscode-descriptionForeground); 
+}
+.attachments summary { cursor: pointer; }
+.attachments pre { 
+    max-height: 200px; 
+    overflow: auto; 
+    font-size: 11px; 
+}
 #input { 
     flex: 1; 
     padding: 8px; 
@@ -276,18 +746,88 @@ code {
     font-family: var(--vscode-editor-font-family); 
     font-size: 12px; 
 }
+.markdown { white-space: normal; }
+.markdown p { margin: 4px 0; }
+.markdown h1, .markdown h2, .markdown h3, .markdown h4, .markdown h5, .markdown h6 { margin: 8px 0 4px; }
+.markdown h1 { font-size: 1.3em; }
+.markdown h2 { font-size: 1.2em; }
+.markdown h3 { font-size: 1.1em; }
+.markdown ul, .markdown ol { margin: 4px 0; padding-left: 20px; }
+.markdown blockquote { 
+    margin: 4px 0; 
+    padding-left: 8px; 
+    border-left: 3px solid var(--vscode-textBlockQuote-border); 
+    color: var(--vscode-descriptionForeground); 
+}
+.markdown hr { border: none; border-top: 1px solid var(--vscode-panel-border); margin: 8px 0; }
+.markdown table { border-collapse: collapse; margin: 8px 0; }
+.markdown th, .markdown td { border: 1px solid var(--vscode-panel-border); padding: 2px 6px; }
+.markdown a { color: var(--vscode-textLink-foreground); }
+.markdown :not(pre) > code { 
+    padding: 1px 4px; 
+    border-radius: 3px; 
+    background: var(--vscode-textCodeBlock-background); 
+}
+.code-block { 
+    margin: 8px 0; 
+    border: 1px solid var(--vscode-panel-border); 
+    border-radius: 4px; 
+}
+.code-header { 
+    display: flex; 
+    justify-content: space-between; 
+    align-items: center; 
+    gap: 4px; 
+    padding: 2px 6px; 
+    font-size: 11px; 
+    color: var(--vscode-descriptionForeground); 
+}
+.code-actions { display: flex; gap: 4px; }
+.code-action { padding: 1px 6px; font-size: 11px; }
+.code-block pre { margin: 0; border-radius: 0 0 4px 4px; white-space: pre; }
+.hl-keyword { color: var(--vscode-symbolIcon-keywordForeground); }
+.hl-string { color: var(--vscode-symbolIcon-stringForeground); }
+.hl-number { color: var(--vscode-symbolIcon-numberForeground); }
+.hl-comment { color: var(--vscode-descriptionForeground); font-style: italic; }
+.hl-add { color: var(--vscode-gitDecoration-addedResourceForeground); }
+.hl-del { color: var(--vscode-gitDecoration-deletedResourceForeground); }
 </style>
 </head>
 <body>
 <div id="header">
     <select id="thread-select"><option value="">New Chat</option></select>
+    <select id="mode-select" title="Chat mode: which tools the agent gets"></select>
+    <select id="profile-select" title="Model profile"></select>
     <button class="btn" id="btnNew" title="New Chat">New</button>
+    <button class="btn" id="btnSummary" title="Conversation summary">Summary</button>
     <button class="btn" id="btnTest" title="Test Connection">Test</button>
     <button class="btn" id="btnSettings" title="Settings">Settings</button>
 </div>
+<div id="summary-panel" hidden>
+    <div id="summary-meta"></div>
+    <textarea id="summary-text" rows="8" placeholder="No summary yet. Older turns are summarized automatically as the chat grows, or click Refresh."></textarea>
+    <div class="summary-actions">
+        <button class="btn" id="btnSummarySave" title="The agent uses your edited summary from now on">Save</button>
+        <button class="btn" id="btnSummaryRefresh" title="Fold older turns into the summary now">Refresh</button>
+    </div>
+</div>
 <div id="messages"></div>
+<div id="plan-panel" hidden>
+    <div id="plan-meta"></div>
+    <div id="plan-steps"></div>
+    <div class="plan-actions">
+        <button class="btn" id="btnPlanRun" title="Nothing is written until you approve">Approve &amp; Run</button>
+        <button class="btn" id="btnPlanAdd">Add step</button>
+        <button class="btn" id="btnPlanDiscard">Discard</button>
+    </div>
+</div>
 <div id="input-area">
-    <textarea id="input" rows="3" placeholder="Type a message..."></textarea>
+    <div id="mention-menu" hidden></div>
+    <div id="input-box">
+        <div id="chips"></div>
+        <textarea id="input" rows="3" placeholder="Type a message... (@ to attach context)"></textarea>
+    </div>
+    <button class="btn plan-toggle" id="btnPlanMode" title="Plan first: the agent proposes steps for you to edit and approve before anything is written">Plan</button>
     <button id="send">Send</button>
 </div>
 <script>
@@ -298,24 +838,403 @@ code {
     const inputEl = document.getElementById('input');
     const sendBtn = document.getElementById('send');
     const threadSelect = document.getElementById('thread-select');
+    const profileSelect = document.getElementById('profile-select');
+    const modeSelect = document.getElementById('mode-select');
     const btnNew = document.getElementById('btnNew');
     const btnTest = document.getElementById('btnTest');
     const btnSettings = document.getElementById('btnSettings');
+    const btnSummary = document.getElementById('btnSummary');
+    const summaryPanel = document.getElementById('summary-panel');
+    const summaryMeta = document.getElementById('summary-meta');
+    const summaryText = document.getElementById('summary-text');
+    const planPanel = document.getElementById('plan-panel');
+    const planMeta = document.getElementById('plan-meta');
+    const planSteps = document.getElementById('plan-steps');
+    const btnPlanRun = document.getElementById('btnPlanRun');
+    const btnPlanMode = document.getElementById('btnPlanMode');
+    const chipsEl = document.getElementById('chips');
+    const mentionMenu = document.getElementById('mention-menu');
+    const MENTION_KINDS = ${JSON.stringify(MENTION_KINDS)};
     
     let threads = [];
     let currentThreadId = null;
     let isLoading = false;
+    let streamEl = null;
+    let streamText = '';
+    let streamFrame = 0;
+    let planMode = false;
+    let currentPlan = null;
+    let mentions = [];        // Chips attached to the next message
+    let mentionToken = null;  // The @word being typed
+    let mentionItems = [];
+    let mentionIndex = 0;
+    let mentionSeq = 0;
 
     function log(msg) {
         console.log('[AI Agent UI]', msg);
     }
 
+    // Markdown: everything is escaped first, so the only HTML in a reply is the markup built here
+    function esc(s) {
+        return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+    }
+
+    const KEYWORDS = new Set(('abstract and as async await break case catch class const continue def default defer del delete do elif else enum except export extends false final finally fn for from func function go if impl implements import in interface is lambda let match mod module mut new nil none not null of or package pass private protected pub public raise readonly return self static struct super switch this throw throws true try type typeof use var void when where while with yield').split(' '));
+    const HASH_COMMENTS = /^(py|python|sh|bash|zsh|shell|shellscript|rb|ruby|yaml|yml|toml|ini|r|perl|pl|ps1|powershell|dockerfile|makefile|conf)$/i;
+    const DASH_COMMENTS = /^(sql|lua|haskell|hs)$/i;
+    const MARKUP = /^(html|xml|svg|vue|md|markdown|json|jsonc|css|scss|less|text|txt|plaintext)$/i;
+
+    // Comments, strings, numbers and keywords: enough to read code at a glance, not a full grammar
+    function highlight(code, lang) {
+        if (!lang) return esc(code);
+        if (/^(diff|patch)$/i.test(lang)) {
+            return code.split('\\n').map(function(line) {
+                const cls = /^\\+(?!\\+\\+)/.test(line) ? 'hl-add' : /^-(?!--)/.test(line) ? 'hl-del' : /^@@/.test(line) ? 'hl-keyword' : '';
+                return cls ? '<span class="' + cls + '">' + esc(line) + '</span>' : esc(line);
+            }).join('\\n');
+        }
+        const comment = HASH_COMMENTS.test(lang) ? '#[^\\n]*'
+            : DASH_COMMENTS.test(lang) ? '--[^\\n]*'
+            : /^(html|xml|svg|vue|md|markdown)$/i.test(lang) ? '<!--[\\\\s\\\\S]*?-->'
+            : '\\\\/\\\\/[^\\n]*|\\\\/\\\\*[\\\\s\\\\S]*?\\\\*\\\\/';
+        const token = new RegExp('(' + comment + ')|("(?:\\\\\\\\.|[^"\\\\\\\\\\n])*"|\\'(?:\\\\\\\\.|[^\\'\\\\\\\\\\n])*\\'|\`(?:\\\\\\\\.|[^\`\\\\\\\\])*\`)|(\\\\b(?:0x[0-9a-fA-F]+|\\\\d+(?:\\\\.\\\\d+)?)\\\\b)|([A-Za-z_$][\\\\w$]*)', 'g');
+        const keywords = !MARKUP.test(lang);
+        let html = '';
+        let last = 0;
+        let m;
+        while ((m = token.exec(code))) {
+            html += esc(code.slice(last, m.index));
+            const cls = m[1] ? 'hl-comment' : m[2] ? 'hl-string' : m[3] ? 'hl-number' : keywords && KEYWORDS.has(m[4]) ? 'hl-keyword' : '';
+            html += cls ? '<span class="' + cls + '">' + esc(m[0]) + '</span>' : esc(m[0]);
+            last = token.lastIndex;
+        }
+        return html + esc(code.slice(last));
+    }
+
+    // \`\`\`ts src/app.ts (or \`\`\`ts:src/app.ts) names the file Apply writes to
+    function codeBlock(code, info) {
+        const parts = info.trim().split(/[\\s:]+/);
+        const lang = parts[0] || '';
+        const file = parts.slice(1).find(function(p) { return /[./]/.test(p); }) || '';
+        const actions = [
+            ['copyCode', 'Copy', 'Copy to clipboard'],
+            ['insertCode', 'Insert', 'Insert at the cursor (replaces the selection)'],
+            ['applyCode', 'Apply', 'Apply to ' + (file || 'the active file') + ' after reviewing the diff'],
+            ['newFileCode', 'New File', 'Open in a new untitled editor']
+        ].map(function(a) {
+            return '<button class="btn code-action" data-action="' + a[0] + '" title="' + esc(a[2]) + '">' + a[1] + '</button>';
+        }).join('');
+        return '<div class="code-block" data-lang="' + esc(lang) + '" data-path="' + esc(file) + '">'
+            + '<div class="code-header"><span>' + esc(file || lang || 'code') + '</span><span class="code-actions">' + actions + '</span></div>'
+            + '<pre><code>' + highlight(code, lang) + '</code></pre></div>';
+    }
+
+    function inline(text) {
+        // Code spans are set aside first so nothing inside them is formatted
+        const spans = [];
+        let s = text.replace(/\`([^\`\\n]+)\`/g, function(_, c) {
+            spans.push('<code>' + esc(c) + '</code>');
+            return '\\u0000' + (spans.length - 1) + '\\u0000';
+        });
+        s = esc(s)
+            .replace(/\\[([^\\]]+)\\]\\((https?:\\/\\/[^\\s)]+)\\)/g, '<a href="$2">$1</a>')
+            .replace(/\\*\\*(?=\\S)([^*]+?)\\*\\*/g, '<strong>$1</strong>')
+            .replace(/__(?=\\S)([^_]+?)__/g, '<strong>$1</strong>')
+            .replace(/(^|[^*\\w])\\*(?=\\S)([^*\\n]+?)\\*(?!\\w)/g, '$1<em>$2</em>')
+            .replace(/(^|[^_\\w])_(?=\\S)([^_\\n]+?)_(?!\\w)/g, '$1<em>$2</em>')
+            .replace(/~~(?=\\S)([^~]+?)~~/g, '<del>$1</del>')
+            .replace(/\\n/g, '<br>');
+        return s.replace(/\\u0000(\\d+)\\u0000/g, function(_, n) { return spans[Number(n)]; });
+    }
+
+    const LIST_ITEM = /^(\\s*)([-*+]|\\d+[.)])\\s+(.*)$/;
+    const TABLE_RULE = /^\\s*\\|?\\s*:?-+:?\\s*(\\|\\s*:?-+:?\\s*)*\\|?\\s*$/;
+
+    function tableCells(line) {
+        return line.trim().replace(/^\\|/, '').replace(/\\|$/, '').split('|').map(function(c) { return c.trim(); });
+    }
+
+    function renderMarkdown(text) {
+        const lines = text.replace(/\\r\\n/g, '\\n').split('\\n');
+        const out = [];
+        let para = [];
+        function flush() {
+            if (para.length) out.push('<p>' + inline(para.join('\\n')) + '</p>');
+            para = [];
+        }
+
+        let i = 0;
+        while (i < lines.length) {
+            const line = lines[i];
+            const fence = /^\\s*(\`\`\`+|~~~+)(.*)$/.exec(line);
+            if (fence) {
+                flush();
+                const body = [];
+                i++;
+                // An unclosed fence runs to the end: the reply is still streaming
+                while (i < lines.length && !new RegExp('^\\\\s*' + fence[1] + '\\\\s*$').test(lines[i])) body.push(lines[i++]);
+                i++;
+                out.push(codeBlock(body.join('\\n'), fence[2]));
+                continue;
+            }
+            if (!line.trim()) {
+                flush();
+                i++;
+                continue;
+            }
+            const heading = /^(#{1,6})\\s+(.*?)\\s*#*\\s*$/.exec(line);
+            if (heading) {
+                flush();
+                out.push('<h' + heading[1].length + '>' + inline(heading[2]) + '</h' + heading[1].length + '>');
+                i++;
+                continue;
+            }
+            if (/^\\s*([-*_])(\\s*\\1){2,}\\s*$/.test(line)) {
+                flush();
+                out.push('<hr>');
+                i++;
+                continue;
+            }
+            if (/^\\s*>/.test(line)) {
+                flush();
+                const quote = [];
+                while (i < lines.length && /^\\s*>/.test(lines[i])) quote.push(lines[i++].replace(/^\\s*> ?/, ''));
+                out.push('<blockquote>' + renderMarkdown(quote.join('\\n')) + '</blockquote>');
+                continue;
+            }
+            if (line.indexOf('|') >= 0 && i + 1 < lines.length && TABLE_RULE.test(lines[i + 1]) && lines[i + 1].indexOf('-') >= 0) {
+                flush();
+                const head = tableCells(line);
+                i += 2;
+                const rows = [];
+                while (i < lines.length && lines[i].indexOf('|') >= 0 && lines[i].trim()) rows.push(tableCells(lines[i++]));
+                out.push('<table><thead><tr>' + head.map(function(c) { return '<th>' + inline(c) + '</th>'; }).join('') + '</tr></thead><tbody>'
+                    + rows.map(function(r) { return '<tr>' + r.map(function(c) { return '<td>' + inline(c) + '</td>'; }).join('') + '</tr>'; }).join('')
+                    + '</tbody></table>');
+                continue;
+            }
+            const item = LIST_ITEM.exec(line);
+            if (item) {
+                flush();
+                const indent = item[1].length;
+                const ordered = /\\d/.test(item[2]);
+                const items = [];
+                while (i < lines.length) {
+                    const current = LIST_ITEM.exec(lines[i]);
+                    if (current && current[1].length <= indent + 1) {
+                        items.push([current[3]]);
+                        i++;
+                        continue;
+                    }
+                    // Indented lines (nested lists, continued text) belong to the item above
+                    const nested = lines[i].trim() && lines[i].search(/\\S/) > indent;
+                    const gap = !lines[i].trim() && i + 1 < lines.length && lines[i + 1].search(/\\S/) > indent;
+                    if (!nested && !gap) break;
+                    items[items.length - 1].push(lines[i].slice(Math.min(indent + 2, lines[i].search(/\\S/) < 0 ? 0 : lines[i].search(/\\S/))));
+                    i++;
+                }
+                const start = ordered ? parseInt(item[2], 10) : 1;
+                out.push((ordered ? '<ol' + (start !== 1 ? ' start="' + start + '"' : '') + '>' : '<ul>')
+                    + items.map(function(it) {
+                        // Tight items (no blank lines) are not wrapped in paragraphs
+                        const tight = it.every(function(l) { return l.trim(); });
+                        const html = renderMarkdown(it.join('\\n'));
+                        return '<li>' + (tight ? html.replace(/^<p>([\\s\\S]*?)<\\/p>/, '$1') : html) + '</li>';
+                    }).join('')
+                    + (ordered ? '</ol>' : '</ul>'));
+                continue;
+            }
+            para.push(line);
+            i++;
+        }
+        flush();
+        return out.join('');
+    }
+
+    function renderInto(div, text) {
+        div.classList.add('markdown');
+        div.innerHTML = renderMarkdown(text);
+    }
+
     function addMessage(text, type) {
         const div = document.createElement('div');
         div.className = 'msg ' + type;
-        div.textContent = text;
+        if (type === 'assistant') renderInto(div, text);
+        else div.textContent = text;
         messagesEl.appendChild(div);
         messagesEl.scrollTop = messagesEl.scrollHeight;
+        return div;
+    }
+
+    // "Restore to here" rolls files and conversation back to before this user message
+    function attachRestore(div, index) {
+        if (div.dataset.index !== undefined) return;
+        div.dataset.index = String(index);
+        const btn = document.createElement('button');
+        btn.className = 'btn restore';
+        btn.textContent = 'Restore to here';
+        btn.title = 'Undo this turn and everything after it';
+        btn.addEventListener('click', function() {
+            vscode.postMessage({ type: 'restoreToMessage', index: index });
+        });
+        div.appendChild(btn);
+    }
+
+    // Labels while the message is on its way; the attached blocks themselves once the host has them
+    function showAttachments(div, items) {
+        const old = div.querySelector('.attachments');
+        if (old) old.remove();
+        if (!items || !items.length) return div;
+        const el = document.createElement('details');
+        el.className = 'attachments';
+        const summary = document.createElement('summary');
+        summary.textContent = '📎 ' + items.map(function(b) { return typeof b === 'string' ? b : b.source; }).join(', ');
+        el.appendChild(summary);
+        items.forEach(function(b) {
+            if (typeof b === 'string') return;
+            const pre = document.createElement('pre');
+            pre.textContent = b.source + '\\n' + b.content;
+            el.appendChild(pre);
+        });
+        div.appendChild(el);
+        return div;
+    }
+
+    function renderChips() {
+        chipsEl.innerHTML = '';
+        mentions.forEach(function(m, i) {
+            const chip = document.createElement('span');
+            chip.className = 'chip';
+            chip.title = m.detail || m.value || '';
+            chip.textContent = m.label;
+            const remove = document.createElement('button');
+            remove.textContent = '✕';
+            remove.title = 'Remove';
+            remove.addEventListener('click', function() {
+                mentions.splice(i, 1);
+                renderChips();
+            });
+            chip.appendChild(remove);
+            chipsEl.appendChild(chip);
+        });
+    }
+
+    function addMention(m) {
+        const same = mentions.some(function(x) {
+            return x.kind === m.kind && x.value === m.value && x.path === m.path && x.line === m.line;
+        });
+        if (!same) mentions.push({ kind: m.kind, label: m.label, value: m.value, path: m.path, line: m.line, detail: m.detail });
+        renderChips();
+    }
+
+    // The @word before the cursor: "@fi" picks a kind, "@file:agent" searches files
+    function findMentionToken() {
+        const before = inputEl.value.slice(0, inputEl.selectionStart);
+        const match = /(^|\\s)@([\\w-]*)(?::(\\S*))?$/.exec(before);
+        if (!match) return null;
+        const start = match.index + match[1].length;
+        return match[3] !== undefined
+            ? { start: start, kind: match[2], query: match[3] }
+            : { start: start, kind: null, query: match[2] };
+    }
+
+    function hideMentionMenu() {
+        mentionMenu.hidden = true;
+        mentionItems = [];
+    }
+
+    function showMentionItems(items) {
+        mentionItems = items;
+        mentionIndex = 0;
+        mentionMenu.innerHTML = '';
+        if (!items.length) return hideMentionMenu();
+        items.forEach(function(item, i) {
+            const row = document.createElement('div');
+            row.className = 'mention-item' + (i === 0 ? ' active' : '');
+            const label = document.createElement('span');
+            label.textContent = item.label;
+            const detail = document.createElement('span');
+            detail.className = 'detail';
+            detail.textContent = item.detail || '';
+            row.append(label, detail);
+            // mousedown keeps focus in the input
+            row.addEventListener('mousedown', function(e) {
+                e.preventDefault();
+                pickMention(item);
+            });
+            mentionMenu.appendChild(row);
+        });
+        mentionMenu.hidden = false;
+    }
+
+    function moveMentionIndex(delta) {
+        const rows = mentionMenu.querySelectorAll('.mention-item');
+        if (!rows.length) return;
+        rows[mentionIndex].classList.remove('active');
+        mentionIndex = (mentionIndex + delta + rows.length) % rows.length;
+        rows[mentionIndex].classList.add('active');
+        rows[mentionIndex].scrollIntoView({ block: 'nearest' });
+    }
+
+    function updateMentionMenu() {
+        mentionToken = findMentionToken();
+        const token = mentionToken;
+        if (!token) return hideMentionMenu();
+        if (token.kind === null) {
+            showMentionItems(MENTION_KINDS
+                .filter(function(k) { return k.kind.indexOf(token.query.toLowerCase()) === 0; })
+                .map(function(k) { return { pickKind: k.kind, label: '@' + k.kind, detail: k.description }; }));
+            return;
+        }
+        const kind = MENTION_KINDS.find(function(k) { return k.kind === token.kind; });
+        if (!kind || !kind.needsValue) return hideMentionMenu();
+        mentionSeq++;
+        vscode.postMessage({ type: 'mentionQuery', kind: token.kind, query: token.query, seq: mentionSeq });
+    }
+
+    function replaceToken(start, text) {
+        const end = inputEl.selectionStart;
+        inputEl.value = inputEl.value.slice(0, start) + text + inputEl.value.slice(end);
+        inputEl.selectionStart = inputEl.selectionEnd = start + text.length;
+        inputEl.focus();
+    }
+
+    function pickMention(item) {
+        const token = mentionToken;
+        if (!token) return;
+        const kind = item.pickKind && MENTION_KINDS.find(function(k) { return k.kind === item.pickKind; });
+        if (kind && kind.needsValue) {
+            // Kind chosen; keep typing to search
+            replaceToken(token.start, '@' + kind.kind + ':');
+            updateMentionMenu();
+            return;
+        }
+        replaceToken(token.start, '');
+        addMention(kind ? { kind: kind.kind, label: '@' + kind.kind } : item);
+        hideMentionMenu();
+    }
+
+    // Re-rendering the whole reply is linear in its length, so deltas are batched to one render per frame
+    function scheduleStreamRender() {
+        if (!streamFrame) streamFrame = requestAnimationFrame(renderStream);
+    }
+
+    function renderStream() {
+        streamFrame = 0;
+        if (!streamEl) return;
+        const atBottom = messagesEl.scrollHeight - messagesEl.scrollTop - messagesEl.clientHeight < 20;
+        renderInto(streamEl, streamText);
+        if (atBottom) messagesEl.scrollTop = messagesEl.scrollHeight;
+    }
+
+    function endStream() {
+        if (streamFrame) {
+            cancelAnimationFrame(streamFrame);
+            renderStream();
+        }
+        if (streamEl && !streamText) streamEl.remove();
+        streamEl = null;
+        streamText = '';
     }
 
     function setLoading(loading) {
@@ -335,13 +1254,131 @@ code {
         });
     }
 
+    function updateProfiles(profiles, current) {
+        profileSelect.innerHTML = '';
+        profiles.forEach(function(name) {
+            const opt = document.createElement('option');
+            opt.value = name;
+            opt.textContent = name;
+            if (name === current) opt.selected = true;
+            profileSelect.appendChild(opt);
+        });
+    }
+
+    function updateModes(modes, current) {
+        modeSelect.innerHTML = '';
+        modes.forEach(function(m) {
+            const opt = document.createElement('option');
+            opt.value = m.name;
+            opt.textContent = m.label;
+            opt.title = m.prompt || 'All tools';
+            if (m.name === current) opt.selected = true;
+            modeSelect.appendChild(opt);
+        });
+    }
+
+    function showSummary(summary) {
+        summaryText.value = summary ? summary.text : '';
+        summaryMeta.textContent = summary
+            ? 'Covers the first ' + summary.covered + ' messages · updated ' + new Date(summary.updated).toLocaleString() + (summary.edited ? ' · edited by you' : '')
+            : 'No summary for this chat yet.';
+    }
+
+    const STEP_ICONS = { pending: '☐', running: '▶', done: '☑', failed: '✗', skipped: '–' };
+    const PLAN_STATES = {
+        draft: 'Draft plan: edit the steps, then approve',
+        running: 'Running plan...',
+        paused: 'Paused for review: edit if needed, then continue',
+        done: 'Plan complete'
+    };
+
+    function planRow(step, index, editable) {
+        const row = document.createElement('div');
+        row.className = 'plan-step ' + step.status;
+        if (index !== null) row.dataset.index = String(index);
+        row.dataset.skip = step.status === 'skipped' ? '1' : '';
+
+        const icon = document.createElement('span');
+        icon.className = 'icon';
+        icon.textContent = STEP_ICONS[step.status] || '☐';
+        const text = document.createElement('input');
+        text.className = 'text';
+        text.value = step.text;
+        text.placeholder = 'Step';
+        const skip = document.createElement('button');
+        skip.className = 'btn';
+        skip.textContent = step.status === 'skipped' ? 'Include' : 'Skip';
+        const remove = document.createElement('button');
+        remove.className = 'btn';
+        remove.textContent = '✕';
+        remove.title = 'Remove step';
+        const files = document.createElement('input');
+        files.className = 'files';
+        files.value = (step.files || []).join(', ');
+        files.placeholder = 'Files (comma separated)';
+
+        [text, files, skip, remove].forEach(function(el) { el.disabled = !editable; });
+        text.addEventListener('change', savePlan);
+        files.addEventListener('change', savePlan);
+        skip.addEventListener('click', function() {
+            row.dataset.skip = row.dataset.skip ? '' : '1';
+            savePlan();
+        });
+        remove.addEventListener('click', function() {
+            row.remove();
+            savePlan();
+        });
+
+        row.append(icon, text, skip, remove, files);
+        if (step.note) {
+            const note = document.createElement('div');
+            note.className = 'note';
+            note.textContent = step.note;
+            row.appendChild(note);
+        }
+        return row;
+    }
+
+    function showPlan(plan) {
+        currentPlan = plan;
+        planPanel.hidden = !plan;
+        planSteps.innerHTML = '';
+        if (!plan) return;
+        const editable = plan.status !== 'running';
+        const done = plan.steps.filter(function(s) { return s.status === 'done'; }).length;
+        planMeta.textContent = PLAN_STATES[plan.status] + ' · ' + done + '/' + plan.steps.length + ' done';
+        plan.steps.forEach(function(step, i) { planSteps.appendChild(planRow(step, i, editable)); });
+        btnPlanRun.textContent = plan.status === 'paused' ? 'Continue' : 'Approve & Run';
+        btnPlanRun.disabled = !editable || plan.status === 'done';
+        document.getElementById('btnPlanAdd').disabled = !editable;
+        document.getElementById('btnPlanDiscard').disabled = !editable;
+    }
+
+    function collectSteps() {
+        return Array.prototype.map.call(planSteps.querySelectorAll('.plan-step'), function(row) {
+            return {
+                text: row.querySelector('.text').value,
+                files: row.querySelector('.files').value,
+                skip: !!row.dataset.skip,
+                index: row.dataset.index !== undefined ? Number(row.dataset.index) : undefined
+            };
+        });
+    }
+
+    function savePlan() {
+        vscode.postMessage({ type: 'updatePlan', steps: collectSteps() });
+    }
+
     function send() {
         const text = inputEl.value.trim();
         if (!text || isLoading) return;
         log('Sending: ' + text.substring(0, 50));
-        addMessage(text, 'user');
-        vscode.postMessage({ type: 'send', text: text });
+        showAttachments(addMessage(text, 'user'), mentions.map(function(m) { return m.label; }));
+        vscode.postMessage({ type: planMode ? 'plan' : 'send', text: text, mentions: mentions });
         inputEl.value = '';
+        mentions = [];
+        renderChips();
+        hideMentionMenu();
         setLoading(true);
     }
 
@@ -352,12 +1389,49 @@ code {
     });
 
     inputEl.addEventListener('keydown', function(e) {
+        if (!mentionMenu.hidden) {
+            if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                e.preventDefault();
+                moveMentionIndex(e.key === 'ArrowDown' ? 1 : -1);
+                return;
+            }
+            if (e.key === 'Enter' || e.key === 'Tab') {
+                e.preventDefault();
+                pickMention(mentionItems[mentionIndex]);
+                return;
+            }
+            if (e.key === 'Escape') {
+                e.preventDefault();
+                hideMentionMenu();
+                return;
+            }
+        }
         if (e.key === 'Enter' && !e.shiftKey) {
             e.preventDefault();
             send();
         }
     });
 
+    // Code block buttons: the code is read back from the rendered block
+    messagesEl.addEventListener('click', function(e) {
+        const btn = e.target.closest('.code-action');
+        if (!btn) return;
+        const block = btn.closest('.code-block');
+        vscode.postMessage({
+            type: btn.dataset.action,
+            code: block.querySelector('code').textContent,
+            language: block.dataset.lang || '',
+            path: block.dataset.path || ''
+        });
+        if (btn.dataset.action === 'copyCode') {
+            btn.textContent = 'Copied';
+            setTimeout(function() { btn.textContent = 'Copy'; }, 1500);
+        }
+    });
+
+    inputEl.addEventListener('input', updateMentionMenu);
+    inputEl.addEventListener('blur', hideMentionMenu);
+
     btnNew.addEventListener('click', function() {
         log('New button clicked');
         messagesEl.innerHTML = '';
@@ -366,6 +1440,40 @@ code {
         vscode.postMessage({ type: 'newThread' });
     });
 
+    btnSummary.addEventListener('click', function() {
+        summaryPanel.hidden = !summaryPanel.hidden;
+    });
+
+    document.getElementById('btnSummarySave').addEventListener('click', function() {
+        vscode.postMessage({ type: 'saveSummary', text: summaryText.value });
+    });
+
+    document.getElementById('btnSummaryRefresh').addEventListener('click', function() {
+        vscode.postMessage({ type: 'refreshSummary' });
+    });
+
+    btnPlanMode.addEventListener('click', function() {
+        planMode = !planMode;
+        btnPlanMode.classList.toggle('active', planMode);
+        inputEl.placeholder = planMode ? 'Describe the change to plan... (@ to attach context)' : 'Type a message... (@ to attach context)';
+    });
+
+    btnPlanRun.addEventListener('click', function() {
+        if (isLoading || !currentPlan) return;
+        vscode.postMessage({ type: 'runPlan', steps: collectSteps() });
+        setLoading(true);
+    });
+
+    document.getElementById('btnPlanAdd').addEventListener('click', function() {
+        const row = planRow({ text: '', files: [], status: 'pending' }, null, true);
+        planSteps.appendChild(row);
+        row.querySelector('.text').focus();
+    });
+
+    document.getElementById('btnPlanDiscard').addEventListener('click', function() {
+        vscode.postMessage({ type: 'discardPlan' });
+    });
+
     btnTest.addEventListener('click', function() {
         log('Test button clicked');
         addMessage('Testing connection...', 'status');
@@ -377,6 +1485,16 @@ code {
         vscode.postMessage({ type: 'openSettings' });
     });
 
+    modeSelect.addEventListener('change', function() {
+        log('Mode changed: ' + modeSelect.value);
+        vscode.postMessage({ type: 'setMode', mode: modeSelect.value });
+    });
+
+    profileSelect.addEventListener('change', function() {
+        log('Profile changed: ' + profileSelect.value);
+        vscode.postMessage({ type: 'setProfile', name: profileSelect.value });
+    });
+
     threadSelect.addEventListener('change', function() {
         const id = threadSelect.value;
         log('Thread changed: ' + id);
@@ -404,7 +1522,22 @@ code {
                 else if (text.indexOf('[') === 0 || text.indexOf('Testing') === 0 || text.indexOf('SUCCESS') === 0 || text.indexOf('FAILED') === 0 || text.indexOf('Error') === 0) cls = 'status';
                 addMessage(text, cls);
                 break;
+            case 'streamStart':
+                endStream();
+                streamEl = document.createElement('div');
+                streamEl.className = 'msg assistant markdown';
+                messagesEl.appendChild(streamEl);
+                break;
+            case 'streamDelta':
+                if (!streamEl) break;
+                streamText += data.text;
+                scheduleStreamRender();
+                break;
+            case 'streamEnd':
+                endStream();
+                break;
             case 'done':
+                endStream();
                 setLoading(false);
                 vscode.postMessage({ type: 'getThreads' });
                 break;
@@ -412,23 +1545,66 @@ code {
                 threads = data.threads || [];
                 updateThreads();
                 break;
+            case 'profilesUpdated':
+                updateProfiles(data.profiles || [], data.current);
+                break;
+            case 'modesUpdated':
+                updateModes(data.modes || [], data.current);
+                break;
             case 'threadChanged':
                 currentThreadId = data.thread ? data.thread.id : null;
                 updateThreads();
+                showSummary(data.thread ? data.thread.summary : null);
+                showPlan(data.thread ? data.thread.plan || null : null);
+                break;
+            case 'plan':
+                showPlan(data.plan);
+                break;
+            case 'summary':
+                showSummary(data.summary);
                 break;
             case 'threadLoaded':
                 messagesEl.innerHTML = '';
                 (data.messages || []).forEach(function(m) {
-                    if (m.role === 'user') addMessage(m.content, 'user');
+                    if (m.role === 'user') attachRestore(showAttachments(addMessage(m.content, 'user'), m.attachments), m.index);
                     else if (m.content) addMessage(m.content, 'assistant');
                 });
                 break;
+            case 'userMessage':
+                showAttachments(addMessage(data.text, 'user'), data.attachments);
+                break;
+            case 'attached':
+                var sent = messagesEl.querySelectorAll('.msg.user');
+                if (sent.length) showAttachments(sent[sent.length - 1], data.blocks);
+                break;
+            case 'mentionSuggestions':
+                // Answers to queries the user has typed past are dropped
+                if (data.seq === mentionSeq && mentionToken && mentionToken.kind) showMentionItems(data.items || []);
+                break;
+            case 'turnStarted':
+                var users = messagesEl.querySelectorAll('.msg.user');
+                var lastUser = users[users.length - 1];
+                if (lastUser) attachRestore(lastUser, data.index);
+                break;
+            case 'warning':
+                addMessage(data.text, 'warning');
+                break;
+            case 'fixRound':
+                addMessage(data.text, 'fix-round' + (data.outcome === 'green' ? ' green' : data.outcome ? ' failed' : ''));
+                break;
+            case 'setInput':
+                inputEl.value = data.text || '';
+                inputEl.focus();
+                break;
         }
     });
 
     // Initialize
     log('Initializing...');
     vscode.postMessage({ type: 'getThreads' });
+    vscode.postMessage({ type: 'getProfiles' });
+    vscode.postMessage({ type: 'getModes' });
+    showSummary(null);
     addMessage('AI Agent ready. Click "Test" to verify LM Studio connection.', 'status');
 })();
 </script>
@@ -436,11 +1612,25 @@ code {
 </html>`;
     }
 
-    async sendMessage(text: string) {
+    // `mode` applies to this message only; commands pass the mode they are configured for
+    async sendMessage(text: string, task: TaskKind = 'agent', mode?: ChatMode, mentions: Mention[] = []) {
+        this.setStatus('thinking');
+        this.postMessage({ type: 'userMessage', text, attachments: mentions.map(m => m.label) });
+        try {
+            await this.agent.chat(await this.withContext(text, mentions), task, mode);
+        } catch (e) {
+            this.setStatus('error');
+        }
+        this.postMessage({ type: 'done' });
+        this.setStatus('idle');
+    }
+
+    // Runs the fix-verify loop; each round is reported through the fixRound event
+    async fixUntilGreen(request: string, files: string[] = [], mode?: ChatMode) {
         this.setStatus('thinking');
-        this.postMessage({ type: 'response', text: 'You: ' + text });
+        this.postMessage({ type: 'userMessage', text: request });
         try {
-            await this.agent.chat(text);
+            await this.agent.fixUntilGreen(request, files, mode);
         } catch (e) {
             this.setStatus('error');
         }
@@ -449,6 +1639,7 @@ code {
     }
 
     dispose() {
+        this.agent.dispose();
         this.statusBar.dispose();
     }
 }
@@ -0,0 +1,100 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface Checkpoint {
+    id: string;
+    threadId?: string;
+    messageIndex: number;  // Index of the user message in Thread.messages that started the turn
+    label: string;
+    created: number;
+    // Workspace-relative path -> content before the turn (null = file did not exist)
+    files: Record<string, string | null>;
+}
+
+/**
+ * One checkpoint per agent turn, holding the pre-turn content of every file the
+ * turn touched. Stored in .ai-agent/checkpoints/ so they survive a reload.
+ */
+export class Checkpoints {
+    private dir: string;
+    private active: Checkpoint | null = null;
+
+    constructor(private workspaceRoot: string) {
+        this.dir = path.join(workspaceRoot, '.ai-agent', 'checkpoints');
+    }
+
+    begin(label: string, messageIndex: number, threadId?: string): Checkpoint {
+        this.active = {
+            id: `CP-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+            threadId,
+            messageIndex,
+            label: label.slice(0, 80),
+            created: Date.now(),
+            files: {}
+        };
+        return this.active;
+    }
+
+    // Only the first change to a file in a turn matters: that is its pre-turn state
+    track(filePath: string, oldContent: string | null) {
+        if (!this.active) return;
+        const rel = path.relative(this.workspaceRoot, filePath);
+        if (rel in this.active.files) return;
+        this.active.files[rel] = oldContent;
+        this.save(this.active);
+    }
+
+    end() {
+        this.active = null;
+    }
+
+    private save(checkpoint: Checkpoint) {
+        try {
+            fs.mkdirSync(this.dir, { recursive: true });
+            fs.writeFileSync(path.join(this.dir, `${checkpoint.id}.json`), JSON.stringify(checkpoint), 'utf-8');
+        } catch (err) {
+            console.error('[AI Agent Checkpoints] Failed to save checkpoint:', err);
+        }
+    }
+
+    list(threadId?: string): Checkpoint[] {
+        if (!fs.existsSync(this.dir)) return [];
+        const checkpoints: Checkpoint[] = [];
+        for (const file of fs.readdirSync(this.dir).filter(f => f.endsWith('.json'))) {
+            try {
+                checkpoints.push(JSON.parse(fs.readFileSync(path.join(this.dir, file), 'utf-8')));
+            } catch {}
+        }
+        return checkpoints
+            .filter(c => threadId === undefined || c.threadId === threadId)
+            .sort((a, b) => b.created - a.created);
+    }
+
+    get(id: string): Checkpoint | null {
+        return this.list().find(c => c.id === id) || null;
+    }
+
+    remove(id: string) {
+        const filePath = path.join(this.dir, `${id}.json`);
+        if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+    }
+
+    /**
+     * Everything that has to be undone to get back to before `checkpoint`:
+     * the checkpoint itself plus every later one from the same thread.
+     * For each file the oldest snapshot wins.
+     */
+    collect(checkpoint: Checkpoint): { checkpoints: Checkpoint[]; files: Map<string, string | null> } {
+        const later = this.list(checkpoint.threadId)
+            .filter(c => c.created >= checkpoint.created && (checkpoint.threadId || c.id === checkpoint.id));
+
+        const files = new Map<string, string | null>();
+        // Newest first, so older snapshots overwrite newer ones
+        for (const c of later) {
+            for (const [rel, content] of Object.entries(c.files)) {
+                files.set(rel, content);
+            }
+        }
+        return { checkpoints: later, files };
+    }
+}
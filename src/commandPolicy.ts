@@ -0,0 +1,268 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+export type PolicyDecision = 'allow' | 'ask' | 'deny';
+
+export interface SegmentVerdict {
+    command: string;
+    decision: PolicyDecision;
+    rule?: string;
+}
+
+export interface PolicyResult {
+    decision: PolicyDecision;
+    segments: SegmentVerdict[];
+}
+
+// Reserved words and prefixes that run the command after them: `if rm ...` runs rm
+const COMMAND_PREFIX = /^(?:(?:if|then|do|else|elif|while|until|!|time(?:\s+-p)?|exec|nohup|command|builtin)(?:\s+|$))+/;
+// Words that close a compound command and run nothing themselves
+const CLOSING_WORDS = new Set(['fi', 'done', 'esac']);
+
+function stripCommandPrefix(segment: string): string {
+    const stripped = segment.replace(COMMAND_PREFIX, '');
+    return CLOSING_WORDS.has(stripped) ? '' : stripped;
+}
+
+/**
+ * Split a shell command line into the simple commands it would run:
+ * separators (&&, ||, ;, |, &, newlines), subshells ( ... ), command
+ * substitution $( ... ) and `...`, process substitution <( ... ) and
+ * >( ... ), and `sh -c '...'` bodies are all unpacked. Keywords such as
+ * `if`/`then`/`do` and prefixes such as `time`/`exec` are dropped so the
+ * program that actually runs is what rules see. Quotes and backslash
+ * escapes are respected.
+ */
+export function parseShellCommand(cmd: string): string[] {
+    const segments: string[] = [];
+    let current = '';
+    let i = 0;
+
+    const flush = () => {
+        const trimmed = stripCommandPrefix(current.replace(/^[\s{}]+|[\s{}]+$/g, '').replace(/\s+/g, ' '));
+        if (trimmed) segments.push(...expandInlineShell(trimmed));
+        current = '';
+    };
+
+    // Index of the bracket matching the one at `start`, skipping quoted text
+    const findClose = (start: number, open: string, close: string): number => {
+        let depth = 0;
+        let quote: string | null = null;
+        for (let j = start; j < cmd.length; j++) {
+            const c = cmd[j];
+            if (quote) {
+                if (c === '\\' && quote === '"') j++;
+                else if (c === quote) quote = null;
+                continue;
+            }
+            if (c === '\\') { j++; continue; }
+            if (c === '"' || c === "'") { quote = c; continue; }
+            if (c === open) depth++;
+            else if (c === close && --depth === 0) return j;
+        }
+        return cmd.length;
+    };
+
+    while (i < cmd.length) {
+        const c = cmd[i];
+
+        if (c === '\\') {
+            current += cmd.slice(i, i + 2);
+            i += 2;
+            continue;
+        }
+        if (c === "'") {
+            const end = cmd.indexOf("'", i + 1);
+            const stop = end < 0 ? cmd.length : end + 1;
+            current += cmd.slice(i, stop);
+            i = stop;
+            continue;
+        }
+        if (c === '"') {
+            // Double quotes still allow $( ) and backticks inside
+            let j = i + 1;
+            while (j < cmd.length && cmd[j] !== '"') {
+                if (cmd[j] === '\\') { j += 2; continue; }
+                if (cmd[j] === '$' && cmd[j + 1] === '(') {
+                    const close = findClose(j + 1, '(', ')');
+                    segments.push(...parseShellCommand(cmd.slice(j + 2, close)));
+                    j = close + 1;
+                    continue;
+                }
+                if (cmd[j] === '`') {
+                    const close = cmd.indexOf('`', j + 1);
+                    const stop = close < 0 ? cmd.length : close;
+                    segments.push(...parseShellCommand(cmd.slice(j + 1, stop)));
+                    j = stop + 1;
+                    continue;
+                }
+                j++;
+            }
+            current += cmd.slice(i, j + 1);
+            i = j + 1;
+            continue;
+        }
+        if (c === '$' && cmd[i + 1] === '(') {
+            const close = findClose(i + 1, '(', ')');
+            segments.push(...parseShellCommand(cmd.slice(i + 2, close)));
+            current += '$(...)';
+            i = close + 1;
+            continue;
+        }
+        if (c === '`') {
+            const close = cmd.indexOf('`', i + 1);
+            const stop = close < 0 ? cmd.length : close;
+            segments.push(...parseShellCommand(cmd.slice(i + 1, stop)));
+            current += '$(...)';
+            i = stop + 1;
+            continue;
+        }
+        if ((c === '<' || c === '>') && cmd[i + 1] === '(') {
+            const close = findClose(i + 1, '(', ')');
+            segments.push(...parseShellCommand(cmd.slice(i + 2, close)));
+            current += c + '(...)';
+            i = close + 1;
+            continue;
+        }
+        if (c === '(' && !stripCommandPrefix(current.replace(/^[\s{}]+|\s+$/g, ''))) {
+            const close = findClose(i, '(', ')');
+            segments.push(...parseShellCommand(cmd.slice(i + 1, close)));
+            i = close + 1;
+            continue;
+        }
+        if (c === ';' || c === '\n' || c === '|' || c === '&') {
+            // Redirections like 2>&1 and >& are part of the command, not separators
+            if (c === '&' && (cmd[i - 1] === '>' || cmd[i + 1] === '>')) {
+                current += c;
+                i++;
+                continue;
+            }
+            flush();
+            i += (c === '|' || c === '&') && cmd[i + 1] === c ? 2 : 1;
+            continue;
+        }
+
+        current += c;
+        i++;
+    }
+    flush();
+    return segments;
+}
+
+// `bash -c "..."`, `sh -c '...'` and `eval "..."` hide a whole command line in one argument
+function expandInlineShell(segment: string): string[] {
+    const match = segment.match(/^(?:(?:ba|z|da)?sh\s+-c|eval)\s+(['"])([\s\S]*)\1$/);
+    if (!match) return [segment];
+    return [segment, ...parseShellCommand(match[2])];
+}
+
+// Leading VAR=value assignments do not change which program runs
+function stripEnvAssignments(segment: string): string {
+    return segment.replace(/^(?:[A-Za-z_][A-Za-z0-9_]*=(?:'[^']*'|"[^"]*"|\S*)\s+)+/, '');
+}
+
+/**
+ * Rule syntax: `/regex/flags`, a glob where `*` matches anything
+ * (`git push*`), or a plain prefix that matches whole words
+ * (`npm test` matches `npm test -- --watch` but not `npm tests`).
+ */
+export function matchesRule(segment: string, rule: string): boolean {
+    const trimmed = rule.trim();
+    if (!trimmed) return false;
+
+    const regex = trimmed.match(/^\/(.+)\/([a-z]*)$/);
+    if (regex) {
+        try {
+            return new RegExp(regex[1], regex[2]).test(segment);
+        } catch {
+            return false;
+        }
+    }
+    if (trimmed.includes('*')) {
+        const pattern = trimmed.split('*').map(p => p.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+        return new RegExp(`^${pattern}$`, 'i').test(segment);
+    }
+    return segment === trimmed || segment.startsWith(trimmed + ' ');
+}
+
+/**
+ * Allow/deny/ask rules from settings, plus per-workspace "always allow"
+ * decisions saved in .ai-agent/command-approvals.json.
+ */
+export class CommandPolicy {
+    private approvalsFile: string;
+
+    constructor(workspaceRoot: string, private builtinDeny: RegExp[] = []) {
+        this.approvalsFile = path.join(workspaceRoot, '.ai-agent', 'command-approvals.json');
+    }
+
+    private getRules() {
+        const config = vscode.workspace.getConfiguration('ai-agent');
+        return {
+            allow: config.get<string[]>('commandAllow') || [],
+            approved: this.loadApprovals(),
+            deny: config.get<string[]>('commandDeny') || [],
+            ask: config.get<string[]>('commandAsk') || [],
+            fallback: config.get<PolicyDecision>('commandDefault') || 'allow'
+        };
+    }
+
+    private loadApprovals(): string[] {
+        try {
+            if (!fs.existsSync(this.approvalsFile)) return [];
+            return JSON.parse(fs.readFileSync(this.approvalsFile, 'utf-8')).allow || [];
+        } catch {
+            return [];
+        }
+    }
+
+    rememberApproval(commands: string[]) {
+        const allow = new Set(this.loadApprovals());
+        commands.forEach(c => allow.add(stripEnvAssignments(c)));
+        try {
+            fs.mkdirSync(path.dirname(this.approvalsFile), { recursive: true });
+            fs.writeFileSync(this.approvalsFile, JSON.stringify({ allow: [...allow] }, null, 2), 'utf-8');
+        } catch (err) {
+            console.error('[AI Agent] Failed to save command approvals:', err);
+        }
+    }
+
+    // Deny beats ask beats allow, both per segment and across the whole command line
+    evaluate(cmd: string): PolicyResult {
+        // Some built-in patterns (e.g. `curl ... | sh`) only make sense on the whole line
+        const whole = cmd.trim();
+        if (this.builtinDeny.some(p => p.test(whole))) {
+            return { decision: 'deny', segments: [{ command: whole, decision: 'deny', rule: 'built-in dangerous command' }] };
+        }
+
+        const rules = this.getRules();
+        const segments = parseShellCommand(cmd).map((command): SegmentVerdict => {
+            const program = stripEnvAssignments(command);
+
+            const builtin = this.builtinDeny.find(p => p.test(command) || p.test(program));
+            if (builtin) return { command, decision: 'deny', rule: 'built-in dangerous command' };
+
+            const deny = rules.deny.find(r => matchesRule(command, r) || matchesRule(program, r));
+            if (deny) return { command, decision: 'deny', rule: deny };
+
+            // Writing the approvals file would let a command approve the next one
+            if (/\.ai-agent\b/.test(command)) return { command, decision: 'ask', rule: 'touches the .ai-agent directory' };
+
+            // Only a saved approval (an exact command) settles an ask rule; a broad allow such as `git*` does not
+            if (rules.approved.includes(program)) return { command, decision: 'allow', rule: 'approved for this workspace' };
+            const ask = rules.ask.find(r => matchesRule(program, r));
+            if (ask) return { command, decision: 'ask', rule: ask };
+            const allow = rules.allow.find(r => matchesRule(program, r));
+            if (allow) return { command, decision: 'allow', rule: allow };
+            return { command, decision: rules.fallback, rule: 'commandDefault' };
+        });
+
+        const rank: Record<PolicyDecision, number> = { allow: 0, ask: 1, deny: 2 };
+        const decision = segments.reduce<PolicyDecision>(
+            (worst, s) => rank[s.decision] > rank[worst] ? s.decision : worst,
+            'allow'
+        );
+        return { decision, segments };
+    }
+}
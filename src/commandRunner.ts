@@ -0,0 +1,143 @@
+import * as vscode from 'vscode';
+import * as cp from 'child_process';
+
+export interface RunOptions {
+    cwd: string;
+    timeout: number;       // ms
+    maxOutput: number;     // chars of combined output kept in memory (the tail wins)
+    signal?: AbortSignal;
+}
+
+export interface CommandResult {
+    exitCode: number | null;
+    timedOut: boolean;
+    cancelled: boolean;
+    killed: boolean;       // A timeout or stop actually killed processes
+    output: string;        // Combined stdout/stderr tail
+    truncated: boolean;    // Earlier output was dropped to respect maxOutput
+    durationMs: number;
+}
+
+/**
+ * Runs agent shell commands asynchronously, mirroring output live into an
+ * output channel. Commands are killed (whole process tree) on timeout or when
+ * the agent is stopped.
+ */
+export class CommandRunner {
+    private channel = vscode.window.createOutputChannel('AI Agent Commands');
+
+    run(cmd: string, options: RunOptions): Promise<CommandResult> {
+        const started = Date.now();
+        this.channel.appendLine(`\n$ ${cmd}    (cwd: ${options.cwd})`);
+
+        return new Promise(resolve => {
+            let output = '';
+            let truncated = false;
+            let timedOut = false;
+            let cancelled = false;
+            let killed = false;
+            let settled = false;
+
+            const child = cp.spawn(cmd, {
+                cwd: options.cwd,
+                shell: true,
+                // Own process group on POSIX so the whole tree can be killed
+                detached: process.platform !== 'win32',
+                windowsHide: true,
+                // No stdin: interactive prompts fail fast instead of hanging until the timeout
+                stdio: ['ignore', 'pipe', 'pipe'],
+                env: { ...process.env, CI: process.env.CI ?? '1' }
+            });
+
+            const append = (chunk: Buffer) => {
+                const text = chunk.toString('utf-8');
+                this.channel.append(text);
+                output += text;
+                if (output.length > options.maxOutput) {
+                    output = output.slice(-options.maxOutput);
+                    truncated = true;
+                }
+            };
+            child.stdout?.on('data', append);
+            child.stderr?.on('data', append);
+
+            // Always the whole group: the shell may be gone while a backgrounded child (`server &`) still holds the pipes
+            const kill = () => {
+                if (child.pid === undefined) return;
+                if (process.platform === 'win32') {
+                    const taskkill = cp.spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'], { windowsHide: true });
+                    taskkill.on('exit', code => { if (code === 0) killed = true; });
+                    taskkill.on('error', () => {});
+                    return;
+                }
+                try {
+                    process.kill(-child.pid, 'SIGKILL');
+                    killed = true;
+                } catch (e: any) {
+                    // ESRCH: everything in the group has already exited
+                    if (e.code !== 'ESRCH') killed = child.kill('SIGKILL');
+                }
+            };
+
+            const timer = setTimeout(() => {
+                timedOut = true;
+                kill();
+            }, options.timeout);
+
+            const onAbort = () => {
+                cancelled = true;
+                kill();
+            };
+            if (options.signal?.aborted) onAbort();
+            options.signal?.addEventListener('abort', onAbort);
+
+            const finish = (exitCode: number | null, error?: Error) => {
+                if (settled) return;
+                settled = true;
+                clearTimeout(timer);
+                options.signal?.removeEventListener('abort', onAbort);
+                if (error) output += `\n${error.message}`;
+
+                const durationMs = Date.now() - started;
+                const status = timedOut ? 'timed out' : cancelled ? 'cancelled' : `exit ${exitCode}`;
+                this.channel.appendLine(`[${status} after ${(durationMs / 1000).toFixed(1)}s]`);
+                resolve({ exitCode, timedOut, cancelled, killed, output, truncated, durationMs });
+            };
+
+            child.on('error', err => finish(null, err));
+            child.on('close', code => finish(code));
+        });
+    }
+
+    show() {
+        this.channel.show(true);
+    }
+
+    dispose() {
+        this.channel.dispose();
+    }
+}
+
+// Exit status plus the last lines of output, sized for the model
+export function summarizeCommandResult(result: CommandResult, tailLines: number = 60): string {
+    const seconds = (result.durationMs / 1000).toFixed(1);
+    let status: string;
+    if (result.timedOut) status = `Timed out after ${seconds}s${result.killed ? ' (process killed)' : ''}`;
+    else if (result.cancelled) status = `Cancelled after ${seconds}s`;
+    else status = `Exit code: ${result.exitCode} (${seconds}s)`;
+
+    // Drop ANSI colours and keep only the final state of \r-redrawn progress lines
+    const lines = result.output
+        .replace(/\x1b\[[0-9;?]*[A-Za-z]/g, '')
+        .replace(/\r\n/g, '\n')
+        .split('\n')
+        .map(line => line.slice(line.lastIndexOf('\r') + 1));
+    while (lines.length && !lines[lines.length - 1].trim()) lines.pop();
+    if (lines.length === 0) return `${status}\n(no output)`;
+
+    const dropped = lines.length > tailLines || result.truncated;
+    const tail = lines.slice(-tailLines).join('\n');
+    return dropped
+        ? `${status}\nOutput (last ${Math.min(tailLines, lines.length)} lines; full output in "AI Agent Commands" panel):\n${tail}`
+        : `${status}\nOutput:\n${tail}`;
+}
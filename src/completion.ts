@@ -0,0 +1,177 @@
+import * as vscode from 'vscode';
+
+export interface FimRequest {
+    prefix: string;
+    suffix: string;
+    languageId: string;
+    filePath: string;      // Empty for untitled documents, which have no path to check
+    singleLine: boolean;   // Cursor is mid-line: complete to the end of the line only
+}
+
+export type Completer = (request: FimRequest, signal: AbortSignal) => Promise<string>;
+
+const PREFIX_CHARS = 4000;
+const SUFFIX_CHARS = 1500;
+
+/**
+ * Prompt and stop sequences for one FIM request. With a template such as
+ * "<|fim_prefix|>{prefix}<|fim_suffix|>{suffix}<|fim_middle|>" the prompt
+ * carries the model's FIM tokens; without one the server's `suffix`
+ * parameter does the job.
+ */
+export function buildFimPrompt(request: FimRequest, template: string): { prompt: string; suffix?: string; stop: string[] } {
+    const stop = request.singleLine ? ['\n'] : ['\n\n\n'];
+    if (!template) return { prompt: request.prefix, suffix: request.suffix, stop };
+
+    // Template tokens (e.g. <|fim_prefix|>) end the middle if the model echoes them
+    const tokens = template.split(/\{prefix\}|\{suffix\}/).map(t => t.trim()).filter(Boolean);
+    const prompt = template.replace('{prefix}', () => request.prefix).replace('{suffix}', () => request.suffix);
+    return { prompt, stop: [...stop, ...tokens] };
+}
+
+// Models often run on into the code after the cursor; cut where the completion starts repeating it
+export function trimCompletion(text: string, suffix: string): string {
+    let result = text.replace(/\r\n/g, '\n');
+    const nextLine = suffix.split('\n').find(l => l.trim())?.trim();
+    if (nextLine) {
+        const lines = result.split('\n');
+        const repeat = lines.findIndex((l, i) => i > 0 && l.trim() === nextLine);
+        if (repeat > 0) result = lines.slice(0, repeat).join('\n');
+    }
+    const sameLine = suffix.split('\n')[0];
+    if (sameLine.trim() && result.endsWith(sameLine)) result = result.slice(0, -sameLine.length);
+    return result.replace(/\s+$/, '');
+}
+
+interface Config {
+    enabled: boolean;
+    languages: string[];
+    debounce: number;
+}
+
+function getConfig(): Config {
+    const config = vscode.workspace.getConfiguration('ai-agent');
+    return {
+        enabled: config.get<boolean>('completionEnabled') ?? false,
+        languages: config.get<string[]>('completionLanguages') || ['*'],
+        debounce: config.get<number>('completionDebounce') ?? 300
+    };
+}
+
+/**
+ * Ghost-text completions from the local model. Requests are debounced,
+ * cancelled as soon as VS Code moves on, and only one is in flight at a
+ * time. Typing the start of the last suggestion keeps the rest of it
+ * without another request.
+ */
+export class InlineCompletionProvider implements vscode.InlineCompletionItemProvider, vscode.Disposable {
+    private statusItem: vscode.StatusBarItem;
+    private disposables: vscode.Disposable[] = [];
+    private inFlight?: AbortController;
+    private last?: { uri: string; offset: number; before: string; text: string };
+
+    constructor(private complete: Completer) {
+        // Next to the main "AI Agent" status bar item
+        this.statusItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 99);
+        this.statusItem.command = 'ai-agent.toggleCompletions';
+        this.updateStatus();
+        this.statusItem.show();
+
+        this.disposables.push(
+            vscode.languages.registerInlineCompletionItemProvider({ pattern: '**' }, this),
+            vscode.commands.registerCommand('ai-agent.toggleCompletions', () => this.toggle()),
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('ai-agent')) this.updateStatus();
+            })
+        );
+    }
+
+    private async toggle() {
+        const config = vscode.workspace.getConfiguration('ai-agent');
+        const enabled = !getConfig().enabled;
+        const inspect = config.inspect<boolean>('completionEnabled');
+        // Flip it wherever it is set, so a workspace value does not mask the change
+        const target = inspect?.workspaceValue !== undefined ? vscode.ConfigurationTarget.Workspace : vscode.ConfigurationTarget.Global;
+        await config.update('completionEnabled', enabled, target);
+        if (!enabled) this.inFlight?.abort();
+    }
+
+    private updateStatus(busy: boolean = false) {
+        const { enabled } = getConfig();
+        this.statusItem.text = busy ? '$(loading~spin) Complete' : enabled ? '$(sparkle) Complete' : '$(circle-slash) Complete';
+        this.statusItem.tooltip = enabled
+            ? 'AI inline completions are on. Click to turn them off.'
+            : 'AI inline completions are off. Click to turn them on.';
+    }
+
+    async provideInlineCompletionItems(
+        doc: vscode.TextDocument,
+        position: vscode.Position,
+        context: vscode.InlineCompletionContext,
+        token: vscode.CancellationToken
+    ): Promise<vscode.InlineCompletionItem[] | undefined> {
+        const config = getConfig();
+        if (!config.enabled) return undefined;
+        if (!config.languages.includes('*') && !config.languages.includes(doc.languageId)) return undefined;
+        if (doc.uri.scheme !== 'file' && doc.uri.scheme !== 'untitled') return undefined;
+
+        const offset = doc.offsetAt(position);
+        const text = doc.getText();
+        const prefix = text.slice(Math.max(0, offset - PREFIX_CHARS), offset);
+        const suffix = text.slice(offset, offset + SUFFIX_CHARS);
+        const key = doc.uri.toString();
+        const range = new vscode.Range(position, position);
+
+        // Typed along with the last suggestion: offer what is left of it
+        const last = this.last;
+        if (last && last.uri === key && offset > last.offset && offset - last.offset < last.text.length) {
+            const typed = text.slice(last.offset, offset);
+            const before = text.slice(Math.max(0, last.offset - last.before.length), last.offset);
+            if (before === last.before && last.text.startsWith(typed)) {
+                return [new vscode.InlineCompletionItem(last.text.slice(typed.length), range)];
+            }
+        }
+
+        // Explicit requests (Alt+\) skip the debounce
+        if (context.triggerKind === vscode.InlineCompletionTriggerKind.Automatic) {
+            await new Promise(resolve => setTimeout(resolve, config.debounce));
+            if (token.isCancellationRequested) return undefined;
+        }
+
+        this.inFlight?.abort();
+        const controller = new AbortController();
+        this.inFlight = controller;
+        const cancel = token.onCancellationRequested(() => controller.abort());
+        this.updateStatus(true);
+
+        try {
+            const lineAfter = doc.lineAt(position.line).text.slice(position.character);
+            const completion = await this.complete({
+                prefix,
+                suffix,
+                languageId: doc.languageId,
+                filePath: doc.uri.scheme === 'file' ? doc.uri.fsPath : '',
+                singleLine: lineAfter.trim().length > 0
+            }, controller.signal);
+            if (token.isCancellationRequested || !completion) return undefined;
+
+            this.last = { uri: key, offset, before: prefix.slice(-200), text: completion };
+            return [new vscode.InlineCompletionItem(completion, range)];
+        } catch (e: any) {
+            if (e.name !== 'AbortError') console.error('[AI Agent] Completion failed:', e.message);
+            return undefined;
+        } finally {
+            cancel.dispose();
+            if (this.inFlight === controller) {
+                this.inFlight = undefined;
+                this.updateStatus();
+            }
+        }
+    }
+
+    dispose() {
+        this.inFlight?.abort();
+        this.statusItem.dispose();
+        this.disposables.forEach(d => d.dispose());
+    }
+}
@@ -0,0 +1,133 @@
+import { Message } from './providers';
+
+// Rough: ~4 chars per token, plus a little per-message framing
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+export function estimateMessageTokens(msg: Message): number {
+    let tokens = 4 + estimateTokens(msg.content || '');
+    for (const tc of msg.tool_calls || []) {
+        tokens += 4 + estimateTokens(tc.function.name) + estimateTokens(tc.function.arguments || '');
+    }
+    return tokens;
+}
+
+// Servers word this differently; these cover OpenAI, LM Studio, llama.cpp, Ollama and Anthropic
+const CONTEXT_ERROR = /context[ _-]?(length|window)|maximum context|too many tokens|prompt is too long|exceeds? .*(context|token)|n_ctx/i;
+
+export function isContextLengthError(err: any): boolean {
+    return CONTEXT_ERROR.test(err?.message || '');
+}
+
+export interface PackResult {
+    messages: Message[];
+    dropped: Message[];   // Older messages left out, oldest first
+    tokens: number;
+}
+
+/**
+ * An assistant message with tool_calls and the tool results answering it must
+ * travel together: servers reject a request where either half is missing.
+ * A call left without a result (a thread saved mid-turn) drops its group.
+ */
+function groupMessages(messages: Message[]): Message[][] {
+    const groups: Message[][] = [];
+    let i = 0;
+    while (i < messages.length) {
+        const msg = messages[i];
+        if (msg.role === 'tool') {
+            // Orphaned result whose tool call is gone
+            i++;
+            continue;
+        }
+        const group = [msg];
+        i++;
+        if (msg.role === 'assistant' && msg.tool_calls?.length) {
+            const ids = new Set(msg.tool_calls.map(tc => tc.id));
+            const answered = new Set<string>();
+            while (i < messages.length && messages[i].role === 'tool') {
+                const id = messages[i].tool_call_id || '';
+                if (ids.has(id) && !answered.has(id)) {
+                    group.push(messages[i]);
+                    answered.add(id);
+                }
+                i++;
+            }
+            if (answered.size < ids.size) continue;
+        }
+        groups.push(group);
+    }
+    return groups;
+}
+
+function groupTokens(group: Message[]): number {
+    return group.reduce((sum, m) => sum + estimateMessageTokens(m), 0);
+}
+
+// Shrink the largest tool results in a group until it fits, keeping head and tail
+function shrinkGroup(group: Message[], budget: number): Message[] {
+    const shrunk = group.map(m => ({ ...m }));
+    let excess = groupTokens(shrunk) - budget;
+    const tools = shrunk
+        .filter(m => m.role === 'tool' && m.content)
+        .sort((a, b) => b.content!.length - a.content!.length);
+    for (const m of tools) {
+        if (excess <= 0) break;
+        const content = m.content!;
+        // The marker line itself costs ~25 tokens
+        const keep = Math.max(200, content.length - excess * 4 - 100);
+        if (keep >= content.length) continue;
+        const half = Math.floor(keep / 2);
+        m.content = `${content.slice(0, half)}\n\n[... ${content.length - keep} chars dropped to fit the context window ...]\n\n${content.slice(-half)}`;
+        excess = groupTokens(shrunk) - budget;
+    }
+    return shrunk;
+}
+
+/**
+ * Fit a conversation into `budget` tokens. The system prompt, the latest user
+ * message and the newest exchange are always kept (the newest one shrunk if
+ * needed); everything else is added newest-first while it fits, whole
+ * tool-call groups at a time.
+ */
+export function packMessages(messages: Message[], budget: number): PackResult {
+    const [system, ...rest] = messages;
+    const groups = groupMessages(rest);
+
+    let lastUser = -1;
+    groups.forEach((g, i) => { if (g[0].role === 'user') lastUser = i; });
+    const newest = groups.length - 1;
+
+    const keep = new Set<number>();
+    let used = estimateMessageTokens(system);
+    for (const i of [lastUser, newest]) {
+        if (i < 0 || keep.has(i)) continue;
+        keep.add(i);
+        used += groupTokens(groups[i]);
+    }
+
+    let shrunkNewest: Message[] | undefined;
+    if (used > budget && newest !== lastUser && newest >= 0) {
+        const room = budget - (used - groupTokens(groups[newest]));
+        shrunkNewest = shrinkGroup(groups[newest], Math.max(room, 0));
+        used += groupTokens(shrunkNewest) - groupTokens(groups[newest]);
+    }
+
+    // Walk back from the newest exchange; stop at the first group that no longer fits
+    for (let i = newest - 1; i >= 0; i--) {
+        if (keep.has(i)) continue;
+        const tokens = groupTokens(groups[i]);
+        if (used + tokens > budget) break;
+        keep.add(i);
+        used += tokens;
+    }
+
+    const packed: Message[] = [system];
+    const dropped: Message[] = [];
+    groups.forEach((g, i) => {
+        if (!keep.has(i)) dropped.push(...g);
+        else packed.push(...(i === newest && shrunkNewest ? shrunkNewest : g));
+    });
+    return { messages: packed, dropped, tokens: used };
+}
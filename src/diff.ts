@@ -0,0 +1,269 @@
+export type DiffOp =
+    | { type: 'equal'; oldIndex: number; newIndex: number; line: string }
+    | { type: 'delete'; oldIndex: number; line: string }
+    | { type: 'insert'; newIndex: number; line: string };
+
+export interface Hunk {
+    oldStart: number;   // 0-based index of the first replaced line in the old text
+    oldLines: string[];
+    newStart: number;   // 0-based index of the first line in the new text
+    newLines: string[];
+}
+
+/**
+ * Line diff using Myers' O(ND) algorithm. Common prefix and suffix are
+ * trimmed first so the search only runs over the changed middle. A middle
+ * more than MAX_EDIT_DISTANCE edits apart is replaced as a whole.
+ */
+export function diffLines(a: string[], b: string[]): DiffOp[] {
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+    let suffix = 0;
+    while (
+        suffix < a.length - prefix && suffix < b.length - prefix &&
+        a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+    ) suffix++;
+
+    const ops: DiffOp[] = [];
+    for (let i = 0; i < prefix; i++) {
+        ops.push({ type: 'equal', oldIndex: i, newIndex: i, line: a[i] });
+    }
+
+    const midA = a.slice(prefix, a.length - suffix);
+    const midB = b.slice(prefix, b.length - suffix);
+    for (const op of myers(midA, midB)) {
+        if (op.type === 'equal') {
+            ops.push({ ...op, oldIndex: op.oldIndex + prefix, newIndex: op.newIndex + prefix });
+        } else if (op.type === 'delete') {
+            ops.push({ ...op, oldIndex: op.oldIndex + prefix });
+        } else {
+            ops.push({ ...op, newIndex: op.newIndex + prefix });
+        }
+    }
+
+    for (let i = 0; i < suffix; i++) {
+        const oldIndex = a.length - suffix + i;
+        const newIndex = b.length - suffix + i;
+        ops.push({ type: 'equal', oldIndex, newIndex, line: a[oldIndex] });
+    }
+    return ops;
+}
+
+// The trace kept for backtracking grows as D², so larger rewrites are not searched for a minimal script
+const MAX_EDIT_DISTANCE = 2000;
+
+function replaceAll(a: string[], b: string[]): DiffOp[] {
+    return [
+        ...a.map((line, i): DiffOp => ({ type: 'delete', oldIndex: i, line })),
+        ...b.map((line, j): DiffOp => ({ type: 'insert', newIndex: j, line }))
+    ];
+}
+
+function myers(a: string[], b: string[]): DiffOp[] {
+    const n = a.length;
+    const m = b.length;
+    if (n === 0 || m === 0) return replaceAll(a, b);
+
+    const max = n + m;
+    const offset = max + 1;
+    const v = new Int32Array(2 * max + 3);
+    // Only the diagonals reachable at distance d are kept per step
+    const trace: { v: Int32Array; base: number }[] = [];
+
+    // Forward pass: record the furthest-reaching x for every diagonal k at each edit distance d
+    let found = false;
+    for (let d = 0; d <= max && !found; d++) {
+        if (d > MAX_EDIT_DISTANCE) return replaceAll(a, b);
+        const base = offset - d - 1;
+        trace.push({ v: v.slice(base, offset + d + 2), base });
+        for (let k = -d; k <= d; k += 2) {
+            let x: number;
+            if (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) {
+                x = v[offset + k + 1];
+            } else {
+                x = v[offset + k - 1] + 1;
+            }
+            let y = x - k;
+            while (x < n && y < m && a[x] === b[y]) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+            if (x >= n && y >= m) {
+                found = true;
+                break;
+            }
+        }
+    }
+
+    // Backtrack through the recorded frontiers to recover the edit script
+    const ops: DiffOp[] = [];
+    let x = n;
+    let y = m;
+    for (let d = trace.length - 1; d >= 0; d--) {
+        const { v: prev, base } = trace[d];
+        const at = (diag: number) => prev[offset + diag - base];
+        const k = x - y;
+        let prevK: number;
+        if (k === -d || (k !== d && at(k - 1) < at(k + 1))) {
+            prevK = k + 1;
+        } else {
+            prevK = k - 1;
+        }
+        const prevX = at(prevK);
+        const prevY = prevX - prevK;
+
+        while (x > prevX && y > prevY) {
+            x--;
+            y--;
+            ops.push({ type: 'equal', oldIndex: x, newIndex: y, line: a[x] });
+        }
+        if (d > 0) {
+            if (x === prevX) {
+                y--;
+                ops.push({ type: 'insert', newIndex: y, line: b[y] });
+            } else {
+                x--;
+                ops.push({ type: 'delete', oldIndex: x, line: a[x] });
+            }
+        }
+    }
+    return ops.reverse();
+}
+
+/** Group a diff into hunks of consecutive changes (no context lines). */
+export function computeHunks(a: string[], b: string[]): Hunk[] {
+    const hunks: Hunk[] = [];
+    let current: Hunk | null = null;
+    let oldPos = 0;
+    let newPos = 0;
+
+    for (const op of diffLines(a, b)) {
+        if (op.type === 'equal') {
+            current = null;
+            oldPos = op.oldIndex + 1;
+            newPos = op.newIndex + 1;
+            continue;
+        }
+        if (!current) {
+            current = { oldStart: oldPos, oldLines: [], newStart: newPos, newLines: [] };
+            hunks.push(current);
+        }
+        if (op.type === 'delete') {
+            current.oldLines.push(op.line);
+            oldPos = op.oldIndex + 1;
+        } else {
+            current.newLines.push(op.line);
+            newPos = op.newIndex + 1;
+        }
+    }
+    return hunks;
+}
+
+/** Rebuild the new text keeping only the accepted hunks (by index) and the old text elsewhere. */
+export function applySelectedHunks(a: string[], hunks: Hunk[], accepted: Set<number>): string[] {
+    const result: string[] = [];
+    let pos = 0;
+    hunks.forEach((hunk, i) => {
+        result.push(...a.slice(pos, hunk.oldStart));
+        result.push(...(accepted.has(i) ? hunk.newLines : hunk.oldLines));
+        pos = hunk.oldStart + hunk.oldLines.length;
+    });
+    result.push(...a.slice(pos));
+    return result;
+}
+
+export interface UnifiedDiffOptions {
+    oldPath?: string;
+    newPath?: string;
+    context?: number;  // Lines of context around each change (default 3)
+}
+
+// Marks the last line of a text without a trailing newline so it never equals a terminated line
+const NO_EOL = '\u0000';
+
+function toLines(text: string): string[] {
+    if (text === '') return [];
+    const lines = text.replace(/\r\n/g, '\n').split('\n');
+    if (lines[lines.length - 1] === '') {
+        lines.pop();
+    } else {
+        lines[lines.length - 1] += NO_EOL;
+    }
+    return lines;
+}
+
+/**
+ * Standard unified diff (`---`/`+++` headers, `@@ -a,b +c,d @@` hunks) with
+ * configurable context. Returns an empty string when the texts are equal.
+ */
+export function formatUnifiedDiff(oldText: string, newText: string, options: UnifiedDiffOptions = {}): string {
+    const context = Math.max(0, options.context ?? 3);
+    const ops = diffLines(toLines(oldText), toLines(newText));
+
+    const changes: number[] = [];
+    ops.forEach((op, i) => { if (op.type !== 'equal') changes.push(i); });
+    if (changes.length === 0) return '';
+
+    // Old/new line counts before each op, for hunk headers
+    const oldBefore: number[] = [];
+    const newBefore: number[] = [];
+    let o = 0;
+    let n = 0;
+    for (const op of ops) {
+        oldBefore.push(o);
+        newBefore.push(n);
+        if (op.type !== 'insert') o++;
+        if (op.type !== 'delete') n++;
+    }
+
+    // Changes with at most 2*context unchanged lines between them share a hunk, as in GNU diff
+    const groups: [number, number][] = [];
+    let start = changes[0];
+    let end = changes[0];
+    for (const c of changes.slice(1)) {
+        if (c - end - 1 > 2 * context) {
+            groups.push([start, end]);
+            start = c;
+        }
+        end = c;
+    }
+    groups.push([start, end]);
+
+    const out = [`--- ${options.oldPath ?? 'a'}`, `+++ ${options.newPath ?? 'b'}`];
+    for (const [first, last] of groups) {
+        const from = Math.max(0, first - context);
+        const to = Math.min(ops.length - 1, last + context);
+        const body: string[] = [];
+        let oldCount = 0;
+        let newCount = 0;
+
+        for (let i = from; i <= to; i++) {
+            const op = ops[i];
+            const prefix = op.type === 'equal' ? ' ' : op.type === 'delete' ? '-' : '+';
+            if (op.type !== 'insert') oldCount++;
+            if (op.type !== 'delete') newCount++;
+            if (op.line.endsWith(NO_EOL)) {
+                body.push(prefix + op.line.slice(0, -1), '\\ No newline at end of file');
+            } else {
+                body.push(prefix + op.line);
+            }
+        }
+
+        // An empty range points at the line before it, per the unified format
+        const oldStart = oldCount ? oldBefore[from] + 1 : oldBefore[from];
+        const newStart = newCount ? newBefore[from] + 1 : newBefore[from];
+        out.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`, ...body);
+    }
+    return out.join('\n');
+}
+
+export function diffStat(oldText: string, newText: string): { added: number; removed: number } {
+    let added = 0;
+    let removed = 0;
+    for (const op of diffLines(toLines(oldText), toLines(newText))) {
+        if (op.type === 'insert') added++;
+        else if (op.type === 'delete') removed++;
+    }
+    return { added, removed };
+}
@@ -0,0 +1,96 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ContextBlock } from './mentions';
+
+const MAX_SELECTION_CHARS = 2000;
+const MAX_DIAGNOSTICS = 20;
+const MAX_MESSAGE_CHARS = 200;
+
+// Where the user is in the editor when they send a message
+export interface EditorContext {
+    file: string;            // Workspace-relative, absolute outside the workspace, or the URI of an unsaved document
+    language: string;
+    visible: string;         // "lines 10-60 of 400"
+    cursor: string;          // "line 12, column 5"
+    selection?: { range: string; text: string };
+    diagnostics: string[];   // Errors and warnings in this file
+    hidden: boolean;         // Sensitive file: path only
+}
+
+export function captureEditorContext(workspaceRoot: string, canRead: (filePath: string) => boolean): EditorContext | null {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) return null;
+    const doc = editor.document;
+    // Output panels and other virtual documents are not the user's code
+    if (doc.uri.scheme !== 'file' && doc.uri.scheme !== 'untitled') return null;
+
+    let file = doc.uri.toString();
+    if (doc.uri.scheme === 'file') {
+        const rel = path.relative(workspaceRoot, doc.uri.fsPath);
+        file = rel.startsWith('..') || path.isAbsolute(rel) ? doc.uri.fsPath : rel.replace(/\\/g, '/');
+    }
+    const hidden = doc.uri.scheme === 'file' && !canRead(doc.uri.fsPath);
+
+    const visible = editor.visibleRanges[0];
+    const cursor = editor.selection.active;
+    const context: EditorContext = {
+        file,
+        language: doc.languageId,
+        visible: visible ? `lines ${visible.start.line + 1}-${visible.end.line + 1} of ${doc.lineCount}` : `${doc.lineCount} lines`,
+        cursor: `line ${cursor.line + 1}, column ${cursor.character + 1}`,
+        diagnostics: [],
+        hidden
+    };
+    if (hidden) return context;
+
+    if (!editor.selection.isEmpty) {
+        const { start, end } = editor.selection;
+        let text = doc.getText(editor.selection);
+        if (text.length > MAX_SELECTION_CHARS) text = text.slice(0, MAX_SELECTION_CHARS) + `\n... (truncated, ${text.length - MAX_SELECTION_CHARS} more chars)`;
+        context.selection = { range: `lines ${start.line + 1}-${end.line + 1}`, text };
+    }
+
+    const diags = vscode.languages.getDiagnostics(doc.uri)
+        .filter(d => d.severity <= vscode.DiagnosticSeverity.Warning)
+        .sort((a, b) => a.severity - b.severity || a.range.start.line - b.range.start.line);
+    context.diagnostics = diags.slice(0, MAX_DIAGNOSTICS).map(d => {
+        const sev = d.severity === vscode.DiagnosticSeverity.Error ? 'Error' : 'Warning';
+        return `${d.range.start.line + 1}: [${sev}] ${d.message.split('\n')[0].slice(0, MAX_MESSAGE_CHARS)}`;
+    });
+    if (diags.length > MAX_DIAGNOSTICS) context.diagnostics.push(`... ${diags.length - MAX_DIAGNOSTICS} more`);
+    return context;
+}
+
+/**
+ * The context block for this turn, or null when nothing changed since
+ * `previous` (the last one sent in this chat). A selection or diagnostics
+ * list the model already has is referred to instead of repeated.
+ */
+export function formatEditorContext(context: EditorContext, previous: EditorContext | null): ContextBlock | null {
+    if (previous && JSON.stringify(previous) === JSON.stringify(context)) return null;
+    const sameFile = previous?.file === context.file;
+
+    const lines = [
+        `File: ${context.file} (${context.language})`,
+        `Visible: ${context.visible}`,
+        `Cursor: ${context.cursor}`
+    ];
+    if (context.hidden) {
+        lines.push('(sensitive file, contents hidden)');
+    } else {
+        if (context.selection) {
+            const repeated = sameFile && previous?.selection?.text === context.selection.text;
+            lines.push(repeated
+                ? `Selection: ${context.selection.range} (same text as in the previous message)`
+                : `Selection: ${context.selection.range}\n${context.selection.text}`);
+        }
+        if (context.diagnostics.length === 0) {
+            lines.push('Diagnostics: none');
+        } else if (sameFile && previous?.diagnostics.join('\n') === context.diagnostics.join('\n')) {
+            lines.push('Diagnostics: unchanged since the previous message');
+        } else {
+            lines.push(`Diagnostics:\n${context.diagnostics.join('\n')}`);
+        }
+    }
+    return { source: `@editor ${context.file} (${context.cursor.split(',')[0]})`, content: lines.join('\n') };
+}
@@ -1,13 +1,23 @@
 import * as vscode from 'vscode';
 import * as cp from 'child_process';
 import { ChatViewProvider } from './chatViewProvider';
+import { commandMode } from './modes';
+import { Mention } from './mentions';
+import { InlineEditController } from './inlineEdit';
+import { InlineCompletionProvider } from './completion';
 
 let chatViewProvider: ChatViewProvider;
 
+// Selection commands attach the selected code instead of asking the model to fetch it
+const SELECTION: Mention[] = [{ kind: 'selection', label: '@selection' }];
+
 export function activate(context: vscode.ExtensionContext) {
     chatViewProvider = new ChatViewProvider(context.extensionUri);
     
     context.subscriptions.push(
+        chatViewProvider,
+        new InlineEditController((request, signal) => chatViewProvider.rewriteCode(request, signal)),
+        new InlineCompletionProvider((request, signal) => chatViewProvider.completeCode(request, signal)),
         vscode.window.registerWebviewViewProvider(ChatViewProvider.viewType, chatViewProvider),
 
         vscode.commands.registerCommand('ai-agent.chat', async () => {
@@ -22,16 +32,12 @@ export function activate(context: vscode.ExtensionContext) {
             }
             await vscode.commands.executeCommand('ai-agent.chatView.focus');
             const filePath = editor.document.uri.fsPath;
-            const diagnostics = vscode.languages.getDiagnostics(editor.document.uri);
-            const errors = diagnostics
-                .filter(d => d.severity === vscode.DiagnosticSeverity.Error)
-                .map(d => `Line ${d.range.start.line + 1}: ${d.message}`)
-                .join('\n');
-            
-            const prompt = errors 
-                ? `Fix errors in ${filePath}:\n${errors}`
-                : `Review and fix any issues in ${filePath}`;
-            await chatViewProvider.sendMessage(prompt);
+            await chatViewProvider.fixUntilGreen(`Fix the errors in ${filePath}`, [filePath], commandMode('fixFile'));
+        }),
+
+        vscode.commands.registerCommand('ai-agent.fixUntilGreen', async () => {
+            await vscode.commands.executeCommand('ai-agent.chatView.focus');
+            await chatViewProvider.fixUntilGreen('Fix the errors in the workspace', [], commandMode('fixUntilGreen'));
         }),
 
         vscode.commands.registerCommand('ai-agent.askAboutSelection', async () => {
@@ -48,7 +54,7 @@ export function activate(context: vscode.ExtensionContext) {
             
             if (input) {
                 await vscode.commands.executeCommand('ai-agent.chatView.focus');
-                await chatViewProvider.sendMessage(`${input} (use get_selection to see the selected code)`);
+                await chatViewProvider.sendMessage(input, 'agent', commandMode('askAboutSelection'), SELECTION);
             }
         }),
 
@@ -59,7 +65,7 @@ export function activate(context: vscode.ExtensionContext) {
                 return;
             }
             await vscode.commands.executeCommand('ai-agent.chatView.focus');
-            await chatViewProvider.sendMessage('Explain this code in detail. Use get_selection to see it.');
+            await chatViewProvider.sendMessage('Explain this code in detail.', 'agent', commandMode('explainSelection'), SELECTION);
         }),
 
         vscode.commands.registerCommand('ai-agent.refactorSelection', async () => {
@@ -69,7 +75,7 @@ export function activate(context: vscode.ExtensionContext) {
                 return;
             }
             await vscode.commands.executeCommand('ai-agent.chatView.focus');
-            await chatViewProvider.sendMessage('Refactor this code to be cleaner and more maintainable. Use get_selection to see it, then use replace_selection to apply the refactored code.');
+            await chatViewProvider.sendMessage('Refactor this code to be cleaner and more maintainable, then use replace_selection to apply the refactored code.', 'agent', commandMode('refactorSelection'), SELECTION);
         }),
 
         vscode.commands.registerCommand('ai-agent.addTests', async () => {
@@ -80,7 +86,7 @@ export function activate(context: vscode.ExtensionContext) {
             }
             await vscode.commands.executeCommand('ai-agent.chatView.focus');
             const filePath = editor.document.uri.fsPath;
-            await chatViewProvider.sendMessage(`Generate unit tests for the selected code. Use get_selection to see it. Create a test file appropriate for ${filePath}`);
+            await chatViewProvider.sendMessage(`Generate unit tests for the selected code. Create a test file appropriate for ${filePath}`, 'agent', commandMode('addTests'), SELECTION);
         }),
 
         vscode.commands.registerCommand('ai-agent.addDocs', async () => {
@@ -90,7 +96,7 @@ export function activate(context: vscode.ExtensionContext) {
                 return;
             }
             await vscode.commands.executeCommand('ai-agent.chatView.focus');
-            await chatViewProvider.sendMessage('Add documentation comments to this code. Use get_selection to see it, then use replace_selection to add JSDoc/docstring comments.');
+            await chatViewProvider.sendMessage('Add documentation comments to this code, then use replace_selection to add JSDoc/docstring comments.', 'agent', commandMode('addDocs'), SELECTION);
         }),
 
         vscode.commands.registerCommand('ai-agent.gitCommitMessage', async () => {
@@ -118,12 +124,16 @@ export function activate(context: vscode.ExtensionContext) {
                 }
 
                 await vscode.commands.executeCommand('ai-agent.chatView.focus');
-                await chatViewProvider.sendMessage(`Generate a concise git commit message for these staged changes:\n\n\`\`\`diff\n${diff.slice(0, 3000)}\n\`\`\``);
+                await chatViewProvider.sendMessage(`Generate a concise git commit message for these staged changes:\n\n\`\`\`diff\n${diff.slice(0, 3000)}\n\`\`\``, 'commitMessage', commandMode('gitCommitMessage'));
             } catch (e: any) {
                 vscode.window.showErrorMessage(`Git error: ${e.message}`);
             }
         }),
 
+        vscode.commands.registerCommand('ai-agent.restoreCheckpoint', async () => {
+            await chatViewProvider.restoreCheckpoint();
+        }),
+
         vscode.commands.registerCommand('ai-agent.stop', () => {
             chatViewProvider.stop();
         }),
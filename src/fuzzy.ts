@@ -0,0 +1,84 @@
+/**
+ * Ctrl+P style fuzzy match of `query` against a relative path. Query
+ * characters must appear in order; matches at the start of a path segment or
+ * word (after "/", ".", "-", "_" or a camelCase hump), consecutive runs and
+ * matches inside the file name score higher. Returns null when it does not match.
+ */
+export function fuzzyScore(query: string, filePath: string): number | null {
+    const q = query.replace(/\\/g, '/').replace(/\s+/g, '').toLowerCase();
+    if (!q) return 0;
+    const target = filePath.replace(/\\/g, '/');
+    const lower = target.toLowerCase();
+    const nameStart = target.lastIndexOf('/') + 1;
+
+    // Cheap rejection before the scoring pass
+    let probe = 0;
+    for (const c of q) {
+        probe = lower.indexOf(c, probe);
+        if (probe < 0) return null;
+        probe++;
+    }
+
+    const isBoundary = (i: number) => {
+        if (i === 0) return true;
+        const prev = target[i - 1];
+        if ('/._- '.includes(prev)) return true;
+        return prev === prev.toLowerCase() && target[i] !== target[i].toLowerCase();
+    };
+
+    // Match from the end so the file name is preferred over directories
+    const positions: number[] = [];
+    let ti = lower.length - 1;
+    for (let qi = q.length - 1; qi >= 0; qi--) {
+        while (ti >= 0 && lower[ti] !== q[qi]) ti--;
+        if (ti < 0) return null;
+        positions.unshift(ti);
+        ti--;
+    }
+    let score = Math.max(
+        scorePositions(positions, target, nameStart, isBoundary),
+        forwardScore(q, target, lower, nameStart, isBoundary) ?? -Infinity
+    );
+
+    const name = lower.slice(nameStart);
+    if (name === q || name.replace(/\.[^.]*$/, '') === q) score += 30;
+    else if (name.startsWith(q)) score += 15;
+    return score;
+}
+
+// Greedy left-to-right match that prefers word boundaries
+function forwardScore(q: string, target: string, lower: string, nameStart: number, isBoundary: (i: number) => boolean): number | null {
+    const positions: number[] = [];
+    let from = 0;
+    for (let qi = 0; qi < q.length; qi++) {
+        let found = -1;
+        // A boundary match within reach beats the first plain occurrence
+        for (let i = from; i < lower.length; i++) {
+            if (lower[i] !== q[qi]) continue;
+            if (found < 0) found = i;
+            if (isBoundary(i) || (positions.length && i === positions[positions.length - 1] + 1)) {
+                found = i;
+                break;
+            }
+        }
+        if (found < 0) return null;
+        positions.push(found);
+        from = found + 1;
+    }
+    return scorePositions(positions, target, nameStart, isBoundary);
+}
+
+function scorePositions(positions: number[], target: string, nameStart: number, isBoundary: (i: number) => boolean): number {
+    let score = 0;
+    positions.forEach((p, i) => {
+        score += 1;
+        if (isBoundary(p)) score += 8;
+        if (i > 0 && p === positions[i - 1] + 1) score += 5;
+        if (p >= nameStart) score += 3;
+        if (target[p] === '/') score += 2;  // Explicit path separator in the query
+    });
+    // Shorter paths and matches that start early in the file name read as better
+    score -= target.length * 0.05;
+    if (positions[0] === nameStart) score += 6;
+    return score;
+}
@@ -0,0 +1,104 @@
+/**
+ * Glob to RegExp for workspace-relative, forward-slash paths.
+ *   *      anything except "/"
+ *   **     any number of path segments ("**\/" also matches none)
+ *   ?      one character except "/"
+ *   {a,b}  alternatives (may nest)
+ *   [abc]  character class ([!abc] negates)
+ */
+export function globToRegExp(glob: string, caseInsensitive: boolean = false): RegExp {
+    let re = '';
+    let depth = 0;  // Inside {...}
+    for (let i = 0; i < glob.length; i++) {
+        const c = glob[i];
+        if (c === '*') {
+            if (glob[i + 1] === '*') {
+                i++;
+                if (glob[i + 1] === '/') {
+                    i++;
+                    re += '(?:[^/]*/)*';
+                } else {
+                    re += '.*';
+                }
+            } else {
+                re += '[^/]*';
+            }
+        } else if (c === '?') {
+            re += '[^/]';
+        } else if (c === '[') {
+            const close = glob.indexOf(']', i + 1);
+            if (close < 0) {
+                re += '\\[';
+                continue;
+            }
+            let body = glob.slice(i + 1, close).replace(/\\/g, '\\\\');
+            if (body.startsWith('!')) body = '^' + body.slice(1);
+            re += `[${body}]`;
+            i = close;
+        } else if (c === '{') {
+            depth++;
+            re += '(?:';
+        } else if (c === '}' && depth > 0) {
+            depth--;
+            re += ')';
+        } else if (c === ',' && depth > 0) {
+            re += '|';
+        } else {
+            re += c.replace(/[.+^$()|\\\/]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${re}$`, caseInsensitive ? 'i' : '');
+}
+
+/**
+ * Like ripgrep's --glob: a pattern without "/" matches the file name at any
+ * depth, one with "/" matches the whole relative path.
+ */
+export function matchGlob(relPath: string, glob: string): boolean {
+    const posix = relPath.replace(/\\/g, '/');
+    const pattern = glob.trim().replace(/\\/g, '/').replace(/^\.\//, '');
+    if (!pattern) return false;
+    const re = globToRegExp(pattern);
+    if (!pattern.includes('/')) return re.test(posix.slice(posix.lastIndexOf('/') + 1));
+    return re.test(posix);
+}
+
+export interface IgnoreRule {
+    regex: RegExp;
+    negate: boolean;
+    dirOnly: boolean;
+    base: string;  // Directory of the .gitignore, relative, "" for the root
+}
+
+// Parse one .gitignore file living in `base`
+export function parseGitignore(content: string, base: string): IgnoreRule[] {
+    const rules: IgnoreRule[] = [];
+    for (let line of content.split(/\r?\n/)) {
+        line = line.replace(/(?<!\\)\s+$/, '');
+        if (!line || line.startsWith('#')) continue;
+
+        const negate = line.startsWith('!');
+        if (negate) line = line.slice(1);
+        const dirOnly = line.endsWith('/');
+        if (dirOnly) line = line.slice(0, -1);
+
+        // A slash anywhere but the end anchors the pattern to the .gitignore's folder
+        const anchored = line.includes('/');
+        line = line.replace(/^\//, '');
+        const glob = anchored ? line : `**/${line}`;
+        rules.push({ regex: globToRegExp(glob), negate, dirOnly, base });
+    }
+    return rules;
+}
+
+// Last matching rule wins, as in git
+export function isIgnored(relPath: string, isDir: boolean, rules: IgnoreRule[]): boolean {
+    let ignored = false;
+    for (const rule of rules) {
+        if (rule.dirOnly && !isDir) continue;
+        if (rule.base && !relPath.startsWith(rule.base + '/')) continue;
+        const local = rule.base ? relPath.slice(rule.base.length + 1) : relPath;
+        if (rule.regex.test(local)) ignored = !rule.negate;
+    }
+    return ignored;
+}
@@ -0,0 +1,309 @@
+import * as vscode from 'vscode';
+import { Message } from './providers';
+import { diffStat, formatUnifiedDiff } from './diff';
+
+export interface RewriteRequest {
+    instruction: string;
+    code: string;        // The locked range, whole lines
+    before: string;      // Surrounding code, for context only
+    after: string;
+    languageId: string;
+    file: string;        // Workspace-relative
+}
+
+export type Rewriter = (request: RewriteRequest, signal: AbortSignal) => Promise<string>;
+
+const CONTEXT_BEFORE = 40;
+const CONTEXT_AFTER = 20;
+
+const REWRITE_PROMPT = `You rewrite one range of code according to an instruction.
+Reply with ONLY the replacement for the range, in a single fenced code block. Keep the surrounding indentation and style, and do not repeat code from before or after the range. No explanations.`;
+
+export function buildRewriteMessages(request: RewriteRequest): Message[] {
+    const fence = (text: string, lang: string = '') => `\`\`\`${lang}\n${text}\n\`\`\``;
+    const parts = [`File: ${request.file} (${request.languageId})`];
+    if (request.before) parts.push(`Code before the range (context, do not repeat):\n${fence(request.before)}`);
+    parts.push(`Range to rewrite:\n${fence(request.code, request.languageId)}`);
+    if (request.after) parts.push(`Code after the range (context, do not repeat):\n${fence(request.after)}`);
+    parts.push(`Instruction: ${request.instruction}`);
+    return [
+        { role: 'system', content: REWRITE_PROMPT },
+        { role: 'user', content: parts.join('\n\n') }
+    ];
+}
+
+// The first fenced block, or the whole reply when the model skipped the fence
+export function extractReplacement(reply: string): string {
+    const fenced = /```[^\n]*\n([\s\S]*?)\n?```/.exec(reply);
+    const code = fenced ? fenced[1] : reply.trim();
+    return code.replace(/\r\n/g, '\n').replace(/\n+$/, '');
+}
+
+interface InlineSession {
+    uri: vscode.Uri;
+    start: number;       // Offsets of the locked range, moved along with edits elsewhere in the file
+    end: number;
+    original: string;
+    instruction: string;
+    proposed?: string;
+    controller: AbortController;
+}
+
+/**
+ * Ctrl+I style inline edit: the selected lines are locked, rewritten by the
+ * model in one request (no chat, no tools), and shown in place with
+ * Accept/Reject CodeLens. Nothing changes in the document until Accept;
+ * editing the locked range discards the proposal.
+ */
+export class InlineEditController implements vscode.CodeLensProvider, vscode.TextDocumentContentProvider, vscode.Disposable {
+    public static readonly scheme = 'ai-agent-inline';
+    private sessions = new Map<string, InlineSession>();
+    private disposables: vscode.Disposable[] = [];
+    private lensEmitter = new vscode.EventEmitter<void>();
+    readonly onDidChangeCodeLenses = this.lensEmitter.event;
+
+    private pendingDecoration = vscode.window.createTextEditorDecorationType({
+        isWholeLine: true,
+        backgroundColor: new vscode.ThemeColor('editor.rangeHighlightBackground'),
+        after: { color: new vscode.ThemeColor('editorCodeLens.foreground'), margin: '0 0 0 2em' }
+    });
+    private proposalDecoration = vscode.window.createTextEditorDecorationType({
+        isWholeLine: true,
+        backgroundColor: new vscode.ThemeColor('diffEditor.removedLineBackground'),
+        overviewRulerColor: new vscode.ThemeColor('editorOverviewRuler.modifiedForeground'),
+        overviewRulerLane: vscode.OverviewRulerLane.Left,
+        after: { color: new vscode.ThemeColor('editorCodeLens.foreground'), margin: '0 0 0 2em' }
+    });
+
+    constructor(private rewrite: Rewriter) {
+        this.disposables.push(
+            vscode.languages.registerCodeLensProvider({ scheme: 'file' }, this),
+            vscode.languages.registerCodeLensProvider({ scheme: 'untitled' }, this),
+            vscode.workspace.registerTextDocumentContentProvider(InlineEditController.scheme, this),
+            vscode.commands.registerCommand('ai-agent.inlineEdit', () => this.start()),
+            vscode.commands.registerCommand('ai-agent.inlineEdit.accept', (uri?: vscode.Uri) => this.accept(uri)),
+            vscode.commands.registerCommand('ai-agent.inlineEdit.reject', (uri?: vscode.Uri) => this.discard(uri)),
+            vscode.commands.registerCommand('ai-agent.inlineEdit.diff', (uri?: vscode.Uri) => this.showDiff(uri)),
+            vscode.workspace.onDidChangeTextDocument(e => this.onDocumentChange(e)),
+            vscode.workspace.onDidCloseTextDocument(doc => this.end(doc.uri.toString())),
+            vscode.window.onDidChangeVisibleTextEditors(() => this.sessions.forEach(s => this.render(s)))
+        );
+    }
+
+    private async start() {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            vscode.window.showErrorMessage('No file open');
+            return;
+        }
+        const doc = editor.document;
+        const key = doc.uri.toString();
+        if (this.sessions.has(key)) {
+            vscode.window.showWarningMessage('Accept or reject the pending inline edit first');
+            return;
+        }
+
+        // Whole lines, so the replacement slots in without partial-line surprises
+        const selection = editor.selection;
+        const lastLine = selection.end.character === 0 && selection.end.line > selection.start.line
+            ? selection.end.line - 1
+            : selection.end.line;
+        const range = new vscode.Range(selection.start.line, 0, lastLine, doc.lineAt(lastLine).text.length);
+
+        const instruction = await vscode.window.showInputBox({
+            prompt: `Edit ${range.isSingleLine ? `line ${range.start.line + 1}` : `lines ${range.start.line + 1}-${range.end.line + 1}`}`,
+            placeHolder: 'e.g. "add error handling", "convert to async/await"'
+        });
+        if (!instruction) return;
+
+        const session: InlineSession = {
+            uri: doc.uri,
+            start: doc.offsetAt(range.start),
+            end: doc.offsetAt(range.end),
+            original: doc.getText(range),
+            instruction,
+            controller: new AbortController()
+        };
+        this.sessions.set(key, session);
+        this.render(session);
+
+        const contextStart = Math.max(0, range.start.line - CONTEXT_BEFORE);
+        const contextEnd = Math.min(doc.lineCount - 1, range.end.line + CONTEXT_AFTER);
+        const request: RewriteRequest = {
+            instruction,
+            code: session.original,
+            before: range.start.line > 0 ? doc.getText(new vscode.Range(contextStart, 0, range.start.line, 0)).replace(/\r?\n$/, '') : '',
+            after: range.end.line < doc.lineCount - 1 ? doc.getText(new vscode.Range(range.end.line + 1, 0, contextEnd, doc.lineAt(contextEnd).text.length)) : '',
+            languageId: doc.languageId,
+            file: vscode.workspace.asRelativePath(doc.uri)
+        };
+
+        try {
+            const proposed = await this.rewrite(request, session.controller.signal);
+            if (this.sessions.get(key) !== session) return;  // Rejected or invalidated meanwhile
+            if (!proposed.trim()) {
+                this.end(key);
+                vscode.window.showWarningMessage('The model returned no code');
+                return;
+            }
+            const eol = doc.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+            session.proposed = proposed.replace(/\n/g, eol);
+            if (session.proposed === session.original) {
+                this.end(key);
+                vscode.window.showInformationMessage('The model proposed no changes');
+                return;
+            }
+            this.render(session);
+        } catch (e: any) {
+            if (this.sessions.get(key) !== session) return;
+            this.end(key);
+            if (e.name !== 'AbortError') vscode.window.showErrorMessage(`Inline edit failed: ${e.message}`);
+        }
+    }
+
+    private find(uri?: vscode.Uri): InlineSession | undefined {
+        const key = (uri ?? vscode.window.activeTextEditor?.document.uri)?.toString();
+        return key ? this.sessions.get(key) : undefined;
+    }
+
+    private range(doc: vscode.TextDocument, session: InlineSession): vscode.Range {
+        return new vscode.Range(doc.positionAt(session.start), doc.positionAt(session.end));
+    }
+
+    private async accept(uri?: vscode.Uri) {
+        const session = this.find(uri);
+        if (!session?.proposed) return;
+        const doc = await vscode.workspace.openTextDocument(session.uri);
+        const range = this.range(doc, session);
+        if (doc.getText(range) !== session.original) {
+            this.end(session.uri.toString());
+            vscode.window.showWarningMessage('The locked range changed; inline edit discarded');
+            return;
+        }
+
+        // Ends first so our own edit is not mistaken for the user touching the range
+        this.end(session.uri.toString());
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(session.uri, range, session.proposed);
+        if (!await vscode.workspace.applyEdit(edit)) {
+            vscode.window.showErrorMessage('Could not apply the inline edit');
+        }
+    }
+
+    private discard(uri?: vscode.Uri) {
+        const session = this.find(uri);
+        if (session) this.end(session.uri.toString());
+    }
+
+    private async showDiff(uri?: vscode.Uri) {
+        const session = this.find(uri);
+        if (!session?.proposed) return;
+        const base = vscode.Uri.from({ scheme: InlineEditController.scheme, path: session.uri.path, query: session.uri.toString() });
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            base.with({ fragment: 'original' }),
+            base.with({ fragment: 'proposed' }),
+            `${vscode.workspace.asRelativePath(session.uri)}: Inline edit (Current ↔ Proposed)`,
+            { preview: true }
+        );
+    }
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        const session = this.sessions.get(uri.query);
+        if (!session) return '';
+        const doc = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.query);
+        if (!doc) return '';
+        const text = doc.getText();
+        if (uri.fragment !== 'proposed' || !session.proposed) return text;
+        return text.slice(0, session.start) + session.proposed + text.slice(session.end);
+    }
+
+    provideCodeLenses(doc: vscode.TextDocument): vscode.CodeLens[] {
+        const session = this.sessions.get(doc.uri.toString());
+        if (!session) return [];
+        const at = new vscode.Range(doc.positionAt(session.start), doc.positionAt(session.start));
+        if (!session.proposed) {
+            return [
+                new vscode.CodeLens(at, { title: '$(loading~spin) Generating edit...', command: '' }),
+                new vscode.CodeLens(at, { title: 'Cancel', command: 'ai-agent.inlineEdit.reject', arguments: [doc.uri] })
+            ];
+        }
+        return [
+            new vscode.CodeLens(at, { title: '$(check) Accept', command: 'ai-agent.inlineEdit.accept', arguments: [doc.uri] }),
+            new vscode.CodeLens(at, { title: '$(close) Reject', command: 'ai-agent.inlineEdit.reject', arguments: [doc.uri] }),
+            new vscode.CodeLens(at, { title: '$(diff) Open Diff', command: 'ai-agent.inlineEdit.diff', arguments: [doc.uri] })
+        ];
+    }
+
+    private render(session: InlineSession) {
+        for (const editor of vscode.window.visibleTextEditors) {
+            if (editor.document.uri.toString() !== session.uri.toString()) continue;
+            const range = this.range(editor.document, session);
+            if (!session.proposed) {
+                editor.setDecorations(this.proposalDecoration, []);
+                editor.setDecorations(this.pendingDecoration, [{
+                    range,
+                    renderOptions: { after: { contentText: `⏳ ${session.instruction}` } }
+                }]);
+                continue;
+            }
+
+            const { added, removed } = diffStat(session.original + '\n', session.proposed + '\n');
+            const diff = formatUnifiedDiff(session.original + '\n', session.proposed + '\n', { context: 1000 })
+                .split('\n').slice(3).join('\n');  // Drop the ---/+++/@@ header lines
+            const hover = new vscode.MarkdownString(`**Proposed edit:** ${session.instruction}\n\n`);
+            hover.appendCodeblock(diff, 'diff');
+            editor.setDecorations(this.pendingDecoration, []);
+            editor.setDecorations(this.proposalDecoration, [{
+                range,
+                hoverMessage: hover,
+                renderOptions: { after: { contentText: `✨ +${added} −${removed} lines proposed (hover to preview)` } }
+            }]);
+        }
+        this.lensEmitter.fire();
+    }
+
+    // Edits elsewhere move the locked range; edits inside it void the proposal
+    private onDocumentChange(e: vscode.TextDocumentChangeEvent) {
+        const key = e.document.uri.toString();
+        const session = this.sessions.get(key);
+        if (!session || e.contentChanges.length === 0) return;
+
+        for (const change of e.contentChanges) {
+            const changeEnd = change.rangeOffset + change.rangeLength;
+            if (changeEnd <= session.start) {
+                const delta = change.text.length - change.rangeLength;
+                session.start += delta;
+                session.end += delta;
+            } else if (change.rangeOffset >= session.end) {
+                continue;
+            } else {
+                this.end(key);
+                vscode.window.showWarningMessage('The locked range was edited; inline edit discarded');
+                return;
+            }
+        }
+        this.render(session);
+    }
+
+    private end(key: string) {
+        const session = this.sessions.get(key);
+        if (!session) return;
+        this.sessions.delete(key);
+        session.controller.abort();
+        for (const editor of vscode.window.visibleTextEditors) {
+            if (editor.document.uri.toString() !== key) continue;
+            editor.setDecorations(this.pendingDecoration, []);
+            editor.setDecorations(this.proposalDecoration, []);
+        }
+        this.lensEmitter.fire();
+    }
+
+    dispose() {
+        [...this.sessions.keys()].forEach(key => this.end(key));
+        this.disposables.forEach(d => d.dispose());
+        this.pendingDecoration.dispose();
+        this.proposalDecoration.dispose();
+        this.lensEmitter.dispose();
+    }
+}
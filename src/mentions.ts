@@ -0,0 +1,268 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as cp from 'child_process';
+import { Cache } from './cache';
+import { fuzzyScore } from './fuzzy';
+
+export type MentionKind = 'file' | 'folder' | 'symbol' | 'problems' | 'git-diff' | 'selection';
+
+export const MENTION_KINDS: { kind: MentionKind; description: string; needsValue: boolean }[] = [
+    { kind: 'file', description: 'Contents of a file', needsValue: true },
+    { kind: 'folder', description: 'Files in a folder', needsValue: true },
+    { kind: 'symbol', description: 'A function, class or other symbol', needsValue: true },
+    { kind: 'problems', description: 'Errors and warnings in the workspace', needsValue: false },
+    { kind: 'git-diff', description: 'Uncommitted changes', needsValue: false },
+    { kind: 'selection', description: 'The selection in the active editor', needsValue: false }
+];
+
+// A chip in the chat input. `value` is a workspace-relative path, or the symbol name
+export interface Mention {
+    kind: MentionKind;
+    label: string;
+    value?: string;
+    path?: string;   // Symbols: file and 1-based line of the declaration
+    line?: number;
+}
+
+export interface MentionSuggestion extends Mention {
+    detail?: string;
+}
+
+export interface ContextBlock {
+    source: string;   // e.g. "@file src/agent.ts", shown in the chat instead of the content
+    content: string;
+}
+
+const MAX_SUGGESTIONS = 20;
+const MAX_BLOCK_CHARS = 20000;
+const MAX_FOLDER_FILES = 200;
+const MAX_PROBLEMS = 200;
+
+const BLOCK_START = '\n\n<context source="';
+
+export function isMentionKind(value: unknown): value is MentionKind {
+    return typeof value === 'string' && MENTION_KINDS.some(k => k.kind === value);
+}
+
+// Attached blocks go after the message so the thread title stays the user's own words
+export function attachBlocks(text: string, blocks: ContextBlock[]): string {
+    if (blocks.length === 0) return text;
+    return text + blocks.map(b => `${BLOCK_START}${b.source.replace(/"/g, "'")}">\n${b.content}\n</context>`).join('');
+}
+
+// The user's words and the blocks attached to them
+export function splitAttachments(content: string): { text: string; blocks: ContextBlock[] } {
+    const start = content.indexOf(BLOCK_START);
+    if (start < 0) return { text: content, blocks: [] };
+    const blocks = content.slice(start + BLOCK_START.length).split(BLOCK_START).map(part => {
+        const open = part.indexOf('">\n');
+        const close = part.lastIndexOf('\n</context>');
+        return {
+            source: part.slice(0, Math.max(open, 0)),
+            content: open < 0 ? part : part.slice(open + 3, close > open ? close : undefined)
+        };
+    });
+    return { text: content.slice(0, start), blocks };
+}
+
+function truncate(text: string): string {
+    if (text.length <= MAX_BLOCK_CHARS) return text;
+    return text.slice(0, MAX_BLOCK_CHARS) + `\n... (truncated, ${text.length - MAX_BLOCK_CHARS} more chars)`;
+}
+
+function numbered(lines: string[], firstLine: number): string {
+    return lines.map((l, i) => `${firstLine + i}: ${l}`).join('\n');
+}
+
+/**
+ * Autocomplete for @-mentions in the chat input and their expansion into
+ * context blocks. Files come from the Cache index, symbols from the language
+ * servers; sensitive files are named but never read.
+ */
+export class MentionResolver {
+    constructor(
+        private workspaceRoot: string,
+        private cache: Cache,
+        private canRead: (filePath: string) => boolean = () => true
+    ) {}
+
+    private rel(filePath: string): string {
+        return path.relative(this.workspaceRoot, filePath).replace(/\\/g, '/');
+    }
+
+    private abs(rel: string): string {
+        return path.resolve(this.workspaceRoot, rel);
+    }
+
+    async suggest(kind: MentionKind, query: string): Promise<MentionSuggestion[]> {
+        switch (kind) {
+            case 'file':
+                return this.cache.findFiles(query, MAX_SUGGESTIONS).map(rel => {
+                    const file = rel.replace(/\\/g, '/');
+                    return { kind, value: file, label: `@${path.posix.basename(file)}`, detail: path.posix.dirname(file) };
+                });
+            case 'folder': {
+                const folders = new Set<string>();
+                for (const file of this.cache.getAllFiles()) {
+                    let dir = path.posix.dirname(file.replace(/\\/g, '/'));
+                    while (dir !== '.' && !folders.has(dir)) {
+                        folders.add(dir);
+                        dir = path.posix.dirname(dir);
+                    }
+                }
+                return [...folders]
+                    .map(dir => ({ dir, score: fuzzyScore(query, dir) }))
+                    .filter((f): f is { dir: string; score: number } => f.score !== null)
+                    .sort((a, b) => b.score - a.score || a.dir.length - b.dir.length)
+                    .slice(0, MAX_SUGGESTIONS)
+                    .map(f => ({ kind, value: f.dir, label: `@${f.dir}/` }));
+            }
+            case 'symbol': {
+                if (!query.trim()) return [];
+                const symbols = await vscode.commands.executeCommand<vscode.SymbolInformation[]>(
+                    'vscode.executeWorkspaceSymbolProvider', query
+                ) || [];
+                return symbols
+                    .filter(s => s.location.uri.scheme === 'file' && !this.rel(s.location.uri.fsPath).startsWith('..'))
+                    .slice(0, MAX_SUGGESTIONS)
+                    .map(s => {
+                        const file = this.rel(s.location.uri.fsPath);
+                        const line = s.location.range.start.line + 1;
+                        return {
+                            kind,
+                            value: s.name,
+                            path: file,
+                            line,
+                            label: `@${s.name}`,
+                            detail: `${vscode.SymbolKind[s.kind].toLowerCase()} · ${file}:${line}`
+                        };
+                    });
+            }
+            default:
+                return [{ kind, label: `@${kind}` }];
+        }
+    }
+
+    async expand(mentions: Mention[]): Promise<ContextBlock[]> {
+        const blocks: ContextBlock[] = [];
+        const seen = new Set<string>();
+        for (const mention of mentions) {
+            const key = `${mention.kind}:${mention.value ?? ''}:${mention.path ?? ''}:${mention.line ?? ''}`;
+            if (seen.has(key)) continue;
+            seen.add(key);
+            try {
+                blocks.push(await this.expandOne(mention));
+            } catch (e: any) {
+                blocks.push({ source: `@${mention.kind} ${mention.value ?? ''}`.trim(), content: `Error: ${e.message}` });
+            }
+        }
+        return blocks;
+    }
+
+    private async expandOne(mention: Mention): Promise<ContextBlock> {
+        switch (mention.kind) {
+            case 'file':
+                return { source: `@file ${mention.value}`, content: this.readFile(mention.value || '') };
+            case 'folder':
+                return { source: `@folder ${mention.value}`, content: this.listFolder(mention.value || '') };
+            case 'symbol':
+                return { source: `@symbol ${mention.value} (${mention.path}:${mention.line})`, content: await this.readSymbol(mention) };
+            case 'problems':
+                return { source: '@problems', content: this.problems() };
+            case 'git-diff':
+                return { source: '@git-diff', content: this.gitDiff() };
+            case 'selection':
+                return this.selection();
+        }
+    }
+
+    private readFile(rel: string): string {
+        const filePath = this.abs(rel);
+        if (this.rel(filePath).startsWith('..')) return 'Error: Path is outside workspace';
+        if (!this.canRead(filePath)) return '(sensitive file, contents hidden)';
+        const open = vscode.workspace.textDocuments.find(d => d.uri.fsPath === filePath);
+        if (!open && !fs.existsSync(filePath)) return `Error: File not found: ${rel}`;
+        const text = open ? open.getText() : fs.readFileSync(filePath, 'utf-8');
+        return truncate(numbered(text.split(/\r?\n/), 1));
+    }
+
+    private listFolder(rel: string): string {
+        const prefix = rel.replace(/\/+$/, '') + '/';
+        const files = this.cache.getAllFiles()
+            .map(f => f.replace(/\\/g, '/'))
+            .filter(f => f.startsWith(prefix))
+            .sort();
+        if (files.length === 0) return `No indexed files in ${rel}`;
+        const shown = files.slice(0, MAX_FOLDER_FILES).map(f => f.slice(prefix.length));
+        const more = files.length > shown.length ? `\n... ${files.length - shown.length} more` : '';
+        return `${files.length} file(s):\n${shown.join('\n')}${more}`;
+    }
+
+    // The whole declaration when the document symbols have it, otherwise the lines around it
+    private async readSymbol(mention: Mention): Promise<string> {
+        const filePath = this.abs(mention.path || '');
+        if (!this.canRead(filePath)) return '(sensitive file, contents hidden)';
+        const uri = vscode.Uri.file(filePath);
+        const doc = await vscode.workspace.openTextDocument(uri);
+        const line = Math.max((mention.line || 1) - 1, 0);
+
+        const symbols = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[]>(
+            'vscode.executeDocumentSymbolProvider', uri
+        ) || [];
+        let range: vscode.Range | undefined;
+        const visit = (list: (vscode.DocumentSymbol | vscode.SymbolInformation)[]) => {
+            for (const s of list) {
+                const r = 'range' in s ? s.range : s.location.range;
+                if (line < r.start.line || line > r.end.line) continue;
+                if (s.name === mention.value) range = r;
+                if ('children' in s) visit(s.children);
+            }
+        };
+        visit(symbols);
+
+        const start = range ? range.start.line : line;
+        const end = range && range.end.line > range.start.line ? range.end.line : Math.min(line + 30, doc.lineCount - 1);
+        const lines: string[] = [];
+        for (let i = start; i <= end; i++) lines.push(doc.lineAt(i).text);
+        return truncate(numbered(lines, start + 1));
+    }
+
+    private problems(): string {
+        const entries: string[] = [];
+        for (const [uri, diags] of vscode.languages.getDiagnostics()) {
+            if (uri.scheme !== 'file') continue;
+            for (const d of diags) {
+                if (d.severity > vscode.DiagnosticSeverity.Warning) continue;
+                const sev = d.severity === vscode.DiagnosticSeverity.Error ? 'Error' : 'Warning';
+                entries.push(`${this.rel(uri.fsPath)}:${d.range.start.line + 1}: [${sev}] ${d.message}`);
+            }
+        }
+        if (entries.length === 0) return 'No errors or warnings';
+        const more = entries.length > MAX_PROBLEMS ? `\n... ${entries.length - MAX_PROBLEMS} more` : '';
+        return entries.slice(0, MAX_PROBLEMS).join('\n') + more;
+    }
+
+    private gitDiff(): string {
+        // Staged and unstaged changes together; a fresh repo has no HEAD to diff against
+        let diff: string;
+        try {
+            diff = cp.execSync('git diff HEAD', { cwd: this.workspaceRoot, encoding: 'utf-8', timeout: 10000, maxBuffer: 4 * 1024 * 1024 });
+        } catch {
+            diff = cp.execSync('git diff', { cwd: this.workspaceRoot, encoding: 'utf-8', timeout: 10000, maxBuffer: 4 * 1024 * 1024 });
+        }
+        return diff.trim() ? truncate(diff) : 'No uncommitted changes';
+    }
+
+    private selection(): ContextBlock {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) return { source: '@selection', content: 'No file open' };
+        const doc = editor.document;
+        const name = doc.uri.scheme === 'file' ? this.rel(doc.uri.fsPath) : doc.uri.toString();
+        const { start, end } = editor.selection;
+        const source = `@selection ${name}:${start.line + 1}-${end.line + 1}`;
+        if (editor.selection.isEmpty) return { source, content: 'No text selected' };
+        if (doc.uri.scheme === 'file' && !this.canRead(doc.uri.fsPath)) return { source, content: '(sensitive file, contents hidden)' };
+        return { source, content: truncate(`Language: ${doc.languageId}\n${doc.getText(editor.selection)}`) };
+    }
+}
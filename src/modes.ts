@@ -0,0 +1,85 @@
+import * as vscode from 'vscode';
+
+export type ChatMode = 'ask' | 'edit' | 'agent';
+
+export const CHAT_MODES: ChatMode[] = ['ask', 'edit', 'agent'];
+
+// Tools that change files; in fix mode their results carry the diagnostics that follow
+export const EDIT_TOOLS = new Set(['write_file', 'edit_file', 'apply_patch', 'replace_selection', 'insert_text', 'rename_symbol', 'apply_code_action']);
+// Everything that changes the workspace; Ask mode and planning turns never get these
+export const CHANGE_TOOLS = new Set([...EDIT_TOOLS, 'delete_file', 'run_command', 'undo']);
+
+export interface ModeDefinition {
+    name: ChatMode;
+    label: string;
+    prompt: string;      // Tells the model what it may do, so it doesn't reach for missing tools
+    exclude: string[];   // Tools never sent to the model
+    approve: string[];   // Tools the user confirms call by call
+}
+
+const DEFAULT_MODES: Record<ChatMode, ModeDefinition> = {
+    ask: {
+        name: 'ask',
+        label: 'Ask',
+        prompt: 'ASK MODE: answer and explain only. You can read and search the workspace, but you cannot change files or run commands. Show code in your reply instead of applying it.',
+        exclude: [...CHANGE_TOOLS],
+        approve: []
+    },
+    edit: {
+        name: 'edit',
+        label: 'Edit',
+        prompt: 'EDIT MODE: you can read and edit files, but not run shell commands.',
+        exclude: ['run_command'],
+        approve: ['delete_file']
+    },
+    agent: {
+        name: 'agent',
+        label: 'Agent',
+        prompt: '',
+        exclude: [],
+        approve: []
+    }
+};
+
+// Built-in commands and the mode they run in unless `commandModes` says otherwise
+const DEFAULT_COMMAND_MODES: Record<string, ChatMode> = {
+    explainSelection: 'ask',
+    gitCommitMessage: 'ask',
+    refactorSelection: 'edit',
+    addDocs: 'edit',
+    addTests: 'edit',
+    fixFile: 'agent',
+    fixUntilGreen: 'agent'
+};
+
+export function isChatMode(value: unknown): value is ChatMode {
+    return typeof value === 'string' && (CHAT_MODES as string[]).includes(value);
+}
+
+/**
+ * A mode's tool policy. The `modes` setting can replace the exclude/approve
+ * lists of any mode; the rest comes from the built-in definition.
+ */
+export function getMode(mode: ChatMode): ModeDefinition {
+    const config = vscode.workspace.getConfiguration('ai-agent');
+    const overrides = config.get<Partial<Record<ChatMode, Partial<ModeDefinition>>>>('modes') || {};
+    const base = DEFAULT_MODES[mode];
+    const custom = overrides[mode] || {};
+    return {
+        ...base,
+        exclude: Array.isArray(custom.exclude) ? custom.exclude : base.exclude,
+        approve: Array.isArray(custom.approve) ? custom.approve : base.approve
+    };
+}
+
+export function defaultMode(): ChatMode {
+    const mode = vscode.workspace.getConfiguration('ai-agent').get<string>('defaultMode');
+    return isChatMode(mode) ? mode : 'agent';
+}
+
+// Mode for a command (without the "ai-agent." prefix); falls back to the chat's own mode
+export function commandMode(command: string): ChatMode | undefined {
+    const routes = vscode.workspace.getConfiguration('ai-agent').get<Record<string, string>>('commandModes') || {};
+    const mode = routes[command] ?? DEFAULT_COMMAND_MODES[command];
+    return isChatMode(mode) ? mode : undefined;
+}
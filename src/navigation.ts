@@ -0,0 +1,239 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface SymbolPosition {
+    path?: string;    // Absolute; optional when `symbol` alone identifies it
+    line?: number;    // 1-based
+    symbol?: string;  // Name on that line (or anywhere in the workspace when no path is given)
+}
+
+const MAX_RESULTS = 50;
+
+/**
+ * Language-server navigation for the agent: definitions, references, symbols,
+ * hovers and call/type hierarchies through VS Code's built-in provider
+ * commands, formatted as compact `file:line:col  snippet` lines.
+ */
+export class CodeNavigator {
+    private lines = new Map<string, string[]>();
+
+    constructor(private workspaceRoot: string, private canRead: (filePath: string) => boolean = () => true) {}
+
+    private rel(uri: vscode.Uri): string {
+        const rel = path.relative(this.workspaceRoot, uri.fsPath);
+        return rel.startsWith('..') ? uri.fsPath : rel.replace(/\\/g, '/');
+    }
+
+    // Open editors may hold unsaved text; everything else is read from disk once per call
+    private rawLine(uri: vscode.Uri, line: number): string {
+        const key = uri.toString();
+        let lines = this.lines.get(key);
+        if (!lines) {
+            const open = vscode.workspace.textDocuments.find(d => d.uri.toString() === key);
+            try {
+                lines = open ? open.getText().split(/\r?\n/) : fs.readFileSync(uri.fsPath, 'utf-8').split(/\r?\n/);
+            } catch {
+                lines = [];
+            }
+            this.lines.set(key, lines);
+        }
+        return lines[line] ?? '';
+    }
+
+    private lineAt(uri: vscode.Uri, line: number): string {
+        return this.rawLine(uri, line).trim().slice(0, 160);
+    }
+
+    private formatLocation(uri: vscode.Uri, range: vscode.Range, label?: string): string {
+        if (uri.scheme === 'file' && !this.canRead(uri.fsPath)) {
+            return `${this.rel(uri)}:${range.start.line + 1}  (sensitive file, contents hidden)`;
+        }
+        const where = `${this.rel(uri)}:${range.start.line + 1}:${range.start.character + 1}`;
+        return `${where}${label ? `  ${label}` : ''}  ${this.lineAt(uri, range.start.line)}`;
+    }
+
+    private formatList(title: string, entries: string[]): string {
+        const shown = entries.slice(0, MAX_RESULTS);
+        const more = entries.length > shown.length ? `\n... ${entries.length - shown.length} more` : '';
+        return `${title}\n${shown.join('\n')}${more}`;
+    }
+
+    /**
+     * Turn path/line/symbol into a document position. With only a symbol name,
+     * the workspace symbol provider finds where it is declared.
+     */
+    async resolve(target: SymbolPosition): Promise<{ uri: vscode.Uri; position: vscode.Position } | string> {
+        this.lines.clear();
+        if (!target.path) {
+            if (!target.symbol) return 'Error: give a path and line, or a symbol name';
+            const found = await this.findSymbols(target.symbol);
+            const exact = found.filter(s => s.name === target.symbol);
+            const best = (exact.length ? exact : found)[0];
+            if (!best) return `Error: No symbol named "${target.symbol}" found in the workspace`;
+            return { uri: best.location.uri, position: this.symbolStart(best.location.uri, best.location.range, target.symbol) };
+        }
+
+        const uri = vscode.Uri.file(target.path);
+        let doc: vscode.TextDocument;
+        try {
+            doc = await vscode.workspace.openTextDocument(uri);
+        } catch {
+            return `Error: Cannot open ${target.path}`;
+        }
+        if (!target.line) {
+            if (!target.symbol) return 'Error: line or symbol is required';
+            const index = doc.getText().search(new RegExp(`\\b${escapeRegExp(target.symbol)}\\b`));
+            if (index < 0) return `Error: "${target.symbol}" not found in ${this.rel(uri)}`;
+            return { uri, position: doc.positionAt(index) };
+        }
+
+        const line = Math.min(Math.max(target.line - 1, 0), doc.lineCount - 1);
+        const text = doc.lineAt(line).text;
+        let column = text.search(/\S/);
+        if (target.symbol) {
+            const match = new RegExp(`\\b${escapeRegExp(target.symbol)}\\b`).exec(text);
+            if (!match) return `Error: "${target.symbol}" is not on line ${target.line} of ${this.rel(uri)}: ${text.trim()}`;
+            column = match.index;
+        }
+        return { uri, position: new vscode.Position(line, Math.max(column, 0)) };
+    }
+
+    // Symbol ranges often cover the whole declaration; point at the name itself
+    private symbolStart(uri: vscode.Uri, range: vscode.Range, name: string): vscode.Position {
+        const column = this.rawLine(uri, range.start.line).indexOf(name, range.start.character);
+        return column >= 0 ? new vscode.Position(range.start.line, column) : range.start;
+    }
+
+    private async findSymbols(query: string): Promise<vscode.SymbolInformation[]> {
+        const symbols = await vscode.commands.executeCommand<vscode.SymbolInformation[]>(
+            'vscode.executeWorkspaceSymbolProvider', query
+        ) || [];
+        return symbols.filter(s => s.location.uri.scheme === 'file');
+    }
+
+    async definition(target: SymbolPosition): Promise<string> {
+        const at = await this.resolve(target);
+        if (typeof at === 'string') return at;
+        const results = await vscode.commands.executeCommand<(vscode.Location | vscode.LocationLink)[]>(
+            'vscode.executeDefinitionProvider', at.uri, at.position
+        ) || [];
+        if (results.length === 0) return 'No definition found (is a language extension for this file type installed?)';
+
+        const entries = results.map(r => {
+            const uri = 'targetUri' in r ? r.targetUri : r.uri;
+            const range = 'targetUri' in r ? (r.targetSelectionRange ?? r.targetRange) : r.range;
+            return this.formatLocation(uri, range);
+        });
+        return this.formatList(`Definition${entries.length > 1 ? 's' : ''}:`, entries);
+    }
+
+    async references(target: SymbolPosition): Promise<string> {
+        const at = await this.resolve(target);
+        if (typeof at === 'string') return at;
+        const results = await vscode.commands.executeCommand<vscode.Location[]>(
+            'vscode.executeReferenceProvider', at.uri, at.position
+        ) || [];
+        if (results.length === 0) return 'No references found';
+
+        results.sort((a, b) => a.uri.fsPath.localeCompare(b.uri.fsPath) || a.range.start.line - b.range.start.line);
+        const files = new Set(results.map(r => r.uri.toString())).size;
+        return this.formatList(
+            `${results.length} reference(s) in ${files} file(s):`,
+            results.map(r => this.formatLocation(r.uri, r.range))
+        );
+    }
+
+    async workspaceSymbols(query: string): Promise<string> {
+        this.lines.clear();
+        const symbols = await this.findSymbols(query);
+        if (symbols.length === 0) return `No symbols matching "${query}"`;
+        return this.formatList(
+            `${symbols.length} symbol(s):`,
+            symbols.map(s => this.formatLocation(
+                s.location.uri,
+                s.location.range,
+                `${vscode.SymbolKind[s.kind].toLowerCase()} ${s.containerName ? `${s.containerName}.` : ''}${s.name}`
+            ))
+        );
+    }
+
+    async hover(target: SymbolPosition): Promise<string> {
+        const at = await this.resolve(target);
+        if (typeof at === 'string') return at;
+        const hovers = await vscode.commands.executeCommand<vscode.Hover[]>(
+            'vscode.executeHoverProvider', at.uri, at.position
+        ) || [];
+        const text = hovers
+            .flatMap(h => h.contents)
+            .map(c => typeof c === 'string' ? c : 'value' in c ? c.value : '')
+            .map(s => s.trim())
+            .filter(Boolean)
+            .join('\n\n');
+        if (!text) return 'No hover information';
+        return text.length > 3000 ? text.slice(0, 3000) + '\n...' : text;
+    }
+
+    async callHierarchy(target: SymbolPosition, direction: 'incoming' | 'outgoing' | 'both' = 'both'): Promise<string> {
+        const at = await this.resolve(target);
+        if (typeof at === 'string') return at;
+        const items = await vscode.commands.executeCommand<vscode.CallHierarchyItem[]>(
+            'vscode.prepareCallHierarchy', at.uri, at.position
+        ) || [];
+        if (items.length === 0) return 'No call hierarchy here (point at a function or method)';
+
+        const sections: string[] = [];
+        for (const item of items) {
+            sections.push(`${item.name} (${this.rel(item.uri)}:${item.selectionRange.start.line + 1})`);
+            if (direction !== 'outgoing') {
+                const calls = await vscode.commands.executeCommand<vscode.CallHierarchyIncomingCall[]>(
+                    'vscode.provideIncomingCalls', item
+                ) || [];
+                sections.push(calls.length
+                    ? this.formatList(`Called by (${calls.length}):`, calls.map(c =>
+                        this.formatLocation(c.from.uri, c.fromRanges[0] ?? c.from.selectionRange, c.from.name)))
+                    : 'Called by: nothing found');
+            }
+            if (direction !== 'incoming') {
+                const calls = await vscode.commands.executeCommand<vscode.CallHierarchyOutgoingCall[]>(
+                    'vscode.provideOutgoingCalls', item
+                ) || [];
+                sections.push(calls.length
+                    ? this.formatList(`Calls (${calls.length}):`, calls.map(c =>
+                        this.formatLocation(c.to.uri, c.to.selectionRange, c.to.name)))
+                    : 'Calls: nothing found');
+            }
+        }
+        return sections.join('\n\n');
+    }
+
+    async typeHierarchy(target: SymbolPosition, direction: 'supertypes' | 'subtypes' | 'both' = 'both'): Promise<string> {
+        const at = await this.resolve(target);
+        if (typeof at === 'string') return at;
+        const items = await vscode.commands.executeCommand<vscode.TypeHierarchyItem[]>(
+            'vscode.prepareTypeHierarchy', at.uri, at.position
+        ) || [];
+        if (items.length === 0) return 'No type hierarchy here (point at a class or interface)';
+
+        const sections: string[] = [];
+        for (const item of items) {
+            sections.push(`${item.name} (${this.rel(item.uri)}:${item.selectionRange.start.line + 1})`);
+            for (const [dir, command, title] of [
+                ['supertypes', 'vscode.provideSupertypes', 'Extends/implements'],
+                ['subtypes', 'vscode.provideSubtypes', 'Subtypes']
+            ] as const) {
+                if (direction !== 'both' && direction !== dir) continue;
+                const types = await vscode.commands.executeCommand<vscode.TypeHierarchyItem[]>(command, item) || [];
+                sections.push(types.length
+                    ? this.formatList(`${title} (${types.length}):`, types.map(t =>
+                        this.formatLocation(t.uri, t.selectionRange, `${vscode.SymbolKind[t.kind].toLowerCase()} ${t.name}`)))
+                    : `${title}: nothing found`);
+            }
+        }
+        return sections.join('\n\n');
+    }
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,204 @@
+export interface SearchReplace {
+    search: string;
+    replace: string;
+}
+
+export interface Hunk {
+    oldStart: number;
+    lines: string[];  // Raw hunk body lines, each prefixed with ' ', '-' or '+'
+}
+
+export interface FilePatch {
+    oldPath: string | null;  // null for newly created files
+    newPath: string | null;  // null for deleted files
+    hunks: Hunk[];
+}
+
+export type PatchResult = { ok: true; content: string } | { ok: false; error: string };
+
+// Patches are matched against LF text; the file's own line endings are restored afterwards
+function normalizeEol(text: string): { text: string; eol: string } {
+    const eol = text.includes('\r\n') ? '\r\n' : '\n';
+    return { text: text.replace(/\r\n/g, '\n'), eol };
+}
+
+function restoreEol(text: string, eol: string): string {
+    return eol === '\n' ? text : text.replace(/\n/g, eol);
+}
+
+function findAll(haystack: string, needle: string): number[] {
+    const positions: number[] = [];
+    let idx = haystack.indexOf(needle);
+    while (idx >= 0) {
+        positions.push(idx);
+        idx = haystack.indexOf(needle, idx + 1);
+    }
+    return positions;
+}
+
+function lineOf(text: string, offset: number): number {
+    let line = 1;
+    for (let i = 0; i < offset; i++) {
+        if (text.charCodeAt(i) === 10) line++;
+    }
+    return line;
+}
+
+// Point the model at the line it probably meant when an anchor does not match exactly
+function describeMiss(content: string, search: string): string {
+    const firstLine = search.split('\n').find(l => l.trim())?.trim();
+    if (!firstLine) return 'search text is empty';
+
+    const lines = content.split('\n');
+    const candidates = lines
+        .map((l, i) => ({ line: i + 1, text: l }))
+        .filter(l => l.text.trim() === firstLine);
+    if (candidates.length) {
+        const where = candidates.slice(0, 3).map(c => c.line).join(', ');
+        return `first line found at line ${where} but the following lines differ (check whitespace and surrounding lines; read_file again)`;
+    }
+    return 'no matching text in file (read_file again to get the current content)';
+}
+
+/**
+ * Apply search/replace blocks in order. Every search anchor must occur exactly
+ * once in the content at the time it is applied.
+ */
+export function applySearchReplace(original: string, edits: SearchReplace[]): PatchResult {
+    if (!edits.length) return { ok: false, error: 'No edits given' };
+
+    const { text, eol } = normalizeEol(original);
+    let content = text;
+
+    for (let i = 0; i < edits.length; i++) {
+        const search = (edits[i].search ?? '').replace(/\r\n/g, '\n');
+        const replace = (edits[i].replace ?? '').replace(/\r\n/g, '\n');
+        const label = edits.length > 1 ? `Edit ${i + 1}: ` : '';
+
+        if (!search) {
+            return { ok: false, error: `${label}search text is empty` };
+        }
+
+        const matches = findAll(content, search);
+        if (matches.length === 0) {
+            return { ok: false, error: `${label}search text not found - ${describeMiss(content, search)}` };
+        }
+        if (matches.length > 1) {
+            const where = matches.slice(0, 5).map(m => lineOf(content, m)).join(', ');
+            return { ok: false, error: `${label}search text matches ${matches.length} times (lines ${where}); include more surrounding lines so it is unique` };
+        }
+
+        content = content.slice(0, matches[0]) + replace + content.slice(matches[0] + search.length);
+    }
+
+    return { ok: true, content: restoreEol(content, eol) };
+}
+
+function stripPathPrefix(p: string): string | null {
+    const trimmed = p.split('\t')[0].trim();
+    if (trimmed === '/dev/null') return null;
+    return trimmed.replace(/^[ab]\//, '');
+}
+
+/** Parse a (possibly multi-file) unified diff. */
+export function parseUnifiedDiff(patch: string): FilePatch[] {
+    const lines = patch.replace(/\r\n/g, '\n').split('\n');
+    const files: FilePatch[] = [];
+    let current: FilePatch | null = null;
+    let hunk: Hunk | null = null;
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+            current = {
+                oldPath: stripPathPrefix(line.slice(4)),
+                newPath: stripPathPrefix(lines[i + 1].slice(4)),
+                hunks: []
+            };
+            files.push(current);
+            hunk = null;
+            i++;
+            continue;
+        }
+
+        const header = line.match(/^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/);
+        if (header) {
+            if (!current) throw new Error(`Hunk header before file header: ${line}`);
+            hunk = { oldStart: parseInt(header[1], 10), lines: [] };
+            current.hunks.push(hunk);
+            continue;
+        }
+
+        if (!hunk) continue;
+        if (line.startsWith(' ') || line.startsWith('-') || line.startsWith('+')) {
+            hunk.lines.push(line);
+        } else if (line === '') {
+            // Some generators drop the leading space on blank context lines
+            hunk.lines.push(' ');
+        }
+        // "\ No newline at end of file" and other noise is ignored
+    }
+
+    // A trailing blank line is usually the end of the patch, not context
+    for (const file of files) {
+        for (const h of file.hunks) {
+            while (h.lines.length && h.lines[h.lines.length - 1] === ' ') h.lines.pop();
+        }
+    }
+    return files;
+}
+
+/**
+ * Apply the hunks of one file. Each hunk's context and removed lines must
+ * match exactly once; when they match several times, the location named in
+ * the hunk header breaks the tie.
+ */
+export function applyHunks(original: string, hunks: Hunk[]): PatchResult {
+    const { text, eol } = normalizeEol(original);
+    const lines = text.split('\n');
+    let offset = 0;
+
+    for (let h = 0; h < hunks.length; h++) {
+        const hunk = hunks[h];
+        const before = hunk.lines.filter(l => !l.startsWith('+')).map(l => l.slice(1));
+        const after = hunk.lines.filter(l => !l.startsWith('-')).map(l => l.slice(1));
+        const label = `Hunk ${h + 1} (@@ -${hunk.oldStart})`;
+
+        if (before.length === 0) {
+            // Pure insertion: no anchor, trust the header
+            const at = Math.min(Math.max(hunk.oldStart + offset, 0), lines.length);
+            lines.splice(at, 0, ...after);
+            offset += after.length;
+            continue;
+        }
+
+        const matches: number[] = [];
+        for (let i = 0; i + before.length <= lines.length; i++) {
+            let ok = true;
+            for (let j = 0; j < before.length; j++) {
+                if (lines[i + j] !== before[j]) { ok = false; break; }
+            }
+            if (ok) matches.push(i);
+        }
+
+        let at: number;
+        if (matches.length === 1) {
+            at = matches[0];
+        } else if (matches.length === 0) {
+            return { ok: false, error: `${label}: context not found - ${describeMiss(lines.join('\n'), before.join('\n'))}` };
+        } else {
+            const expected = hunk.oldStart - 1 + offset;
+            if (!matches.includes(expected)) {
+                const where = matches.slice(0, 5).map(m => m + 1).join(', ');
+                return { ok: false, error: `${label}: context matches ${matches.length} times (lines ${where}); add more context lines` };
+            }
+            at = expected;
+        }
+
+        lines.splice(at, before.length, ...after);
+        offset += after.length - before.length;
+    }
+
+    return { ok: true, content: restoreEol(lines.join('\n'), eol) };
+}
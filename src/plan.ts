@@ -0,0 +1,90 @@
+import { Plan, PlanStep } from './storage';
+
+// Appended to the request in planning mode; the reply is parsed by parsePlan
+export const PLAN_INSTRUCTIONS = `PLANNING MODE: do not change any files yet. Look around with read-only tools if you need to, then reply with a numbered plan and nothing else, one line per step:
+1. <what to do> [files: path/to/a.ts, path/to/b.ts]
+2. ...
+Keep each step to one logical change. List every file the step creates or modifies; leave out [files: ...] when a step changes none.`;
+
+const STEP_DONE = 'STEP DONE';
+const STEP_FAILED = 'STEP FAILED';
+
+const STEP_LINE = /^\s*(\d+)[.)]\s+(.+)$/;
+const FILES = /\s*[[(]\s*files?\s*:\s*([^\])]*)[\])]\s*$/i;
+
+function normalizeFile(file: string): string {
+    return file.trim().replace(/^[`'"]+|[`'"]+$/g, '').replace(/\\/g, '/').replace(/^\.\//, '');
+}
+
+// Read a numbered plan out of the model's reply; null when there is none
+export function parsePlan(goal: string, reply: string): Plan | null {
+    const steps: PlanStep[] = [];
+    for (const line of reply.split(/\r?\n/)) {
+        const match = STEP_LINE.exec(line);
+        if (!match) continue;
+        let text = match[2].replace(/\*\*/g, '').trim();
+        let files: string[] = [];
+        const filesMatch = FILES.exec(text);
+        if (filesMatch) {
+            files = filesMatch[1].split(',').map(normalizeFile).filter(Boolean);
+            text = text.slice(0, filesMatch.index).trim();
+        }
+        if (text) steps.push({ text, files, status: 'pending' });
+    }
+    if (steps.length === 0) return null;
+    return { goal, steps, status: 'draft', updated: Date.now() };
+}
+
+export function formatPlan(plan: Plan): string {
+    return plan.steps.map((s, i) => {
+        const mark = s.status === 'done' ? 'x' : s.status === 'skipped' ? '-' : ' ';
+        const files = s.files.length ? ` [files: ${s.files.join(', ')}]` : '';
+        return `${i + 1}. [${mark}] ${s.text}${files}`;
+    }).join('\n');
+}
+
+// The turn that carries out one approved step
+export function stepPrompt(plan: Plan, index: number): string {
+    const step = plan.steps[index];
+    const files = step.files.length ? `\nFiles for this step: ${step.files.join(', ')}` : '';
+    return `Carry out step ${index + 1} of the approved plan for: ${plan.goal}
+
+Plan:
+${formatPlan(plan)}
+
+Do step ${index + 1} only: ${step.text}${files}
+Stay within the plan. When the step is complete, end your reply with "${STEP_DONE}". If it cannot be done as planned, stop and end with "${STEP_FAILED}: <reason>".`;
+}
+
+// Why the step's final reply does not count as done, or null when it does
+export function stepFailure(reply: string | undefined): string | null {
+    if (!reply) return 'The step ended without a reply';
+    const failed = reply.lastIndexOf(STEP_FAILED);
+    if (failed >= 0) return reply.slice(failed + STEP_FAILED.length).replace(/^[:\s]+/, '').trim() || 'Reported as failed';
+    if (!reply.includes(STEP_DONE)) return 'The agent did not confirm the step was done';
+    return null;
+}
+
+// Files a step changed that no step of the plan mentions
+export function findDrift(plan: Plan, touched: string[]): string[] {
+    const planned = new Set(plan.steps.flatMap(s => s.files.map(normalizeFile)));
+    if (planned.size === 0) return [];
+    return touched.filter(f => !planned.has(normalizeFile(f)));
+}
+
+// Steps edited in the chat view; finished steps keep their status
+export function mergeSteps(plan: Plan, edited: { text: string; files: string[] | string; skip?: boolean; index?: number }[]): PlanStep[] {
+    return edited
+        .map((e): PlanStep | null => {
+            const text = (e.text || '').trim();
+            if (!text) return null;
+            const files = (Array.isArray(e.files) ? e.files : String(e.files || '').split(','))
+                .map(normalizeFile)
+                .filter(Boolean);
+            const previous = e.index !== undefined ? plan.steps[e.index] : undefined;
+            const kept = previous && previous.text === text && previous.status === 'done';
+            const status = kept ? 'done' : e.skip ? 'skipped' : 'pending';
+            return { text, files, status, note: kept ? previous.note : undefined };
+        })
+        .filter((s): s is PlanStep => s !== null);
+}
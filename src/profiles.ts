@@ -0,0 +1,68 @@
+import * as vscode from 'vscode';
+import { ProviderKind } from './providers';
+
+export type TaskKind = 'agent' | 'fixFile' | 'commitMessage' | 'summary' | 'inlineEdit';
+
+export interface ModelProfile {
+    name: string;
+    provider: ProviderKind;
+    apiUrl: string;
+    apiKey: string;
+    model: string;
+    temperature: number;
+    maxTokens: number;
+    contextTokens: number;  // Model context window the prompt is packed into
+}
+
+export const DEFAULT_PROFILE = 'default';
+
+// The top-level settings form the implicit "default" profile; named profiles
+// inherit any field they leave out from it, except that the API key is only
+// inherited by profiles that talk to the same server.
+function getBaseProfile(): ModelProfile {
+    const config = vscode.workspace.getConfiguration('ai-agent');
+    return {
+        name: DEFAULT_PROFILE,
+        provider: config.get<ProviderKind>('provider') || 'openai',
+        apiUrl: config.get<string>('apiUrl') || 'http://127.0.0.1:1234/v1/chat/completions',
+        apiKey: config.get<string>('apiKey') || process.env.OPENAI_API_KEY || '',
+        model: config.get<string>('model') || 'local-model',
+        temperature: config.get<number>('temperature') ?? 0.1,
+        maxTokens: config.get<number>('maxTokens') ?? 4096,
+        contextTokens: config.get<number>('contextTokens') ?? 16384
+    };
+}
+
+export function getProfiles(): ModelProfile[] {
+    const config = vscode.workspace.getConfiguration('ai-agent');
+    const base = getBaseProfile();
+    const named = (config.get<Partial<ModelProfile>[]>('profiles') || [])
+        .filter(p => p && p.name && p.name !== DEFAULT_PROFILE)
+        .map(p => {
+            // The default key must not be sent to some other endpoint
+            const sameServer = (p.apiUrl || base.apiUrl) === base.apiUrl && (p.provider || base.provider) === base.provider;
+            return { ...base, ...p, apiKey: p.apiKey ?? (sameServer ? base.apiKey : '') } as ModelProfile;
+        });
+    return [base, ...named];
+}
+
+export function getProfile(name?: string): ModelProfile | undefined {
+    if (!name) return undefined;
+    return getProfiles().find(p => p.name === name);
+}
+
+/**
+ * Pick the profile for a request. A task-specific route (e.g. commit messages)
+ * wins over the thread's chosen profile; plain agent turns use the thread's
+ * profile, then the "agent" route, then the default.
+ */
+export function resolveProfile(task: TaskKind, threadProfile?: string): ModelProfile {
+    const config = vscode.workspace.getConfiguration('ai-agent');
+    const routes = config.get<Partial<Record<TaskKind, string>>>('taskProfiles') || {};
+
+    if (task !== 'agent') {
+        const routed = getProfile(routes[task]);
+        if (routed) return routed;
+    }
+    return getProfile(threadProfile) || getProfile(routes.agent) || getBaseProfile();
+}
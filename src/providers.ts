@@ -0,0 +1,493 @@
+export interface ToolCall {
+    id: string;
+    type?: string;
+    function: { name: string; arguments: string };
+}
+
+export interface Message {
+    role: string;
+    content?: string;
+    tool_calls?: ToolCall[];
+    tool_call_id?: string;
+}
+
+export interface ToolDefinition {
+    type: string;
+    function: {
+        name: string;
+        description: string;
+        parameters: Record<string, any>;
+    };
+}
+
+export type StreamEvent =
+    | { type: 'start' }
+    | { type: 'delta'; text: string }
+    | { type: 'end' };
+
+export type ProviderKind = 'openai' | 'ollama' | 'anthropic';
+
+export interface ProviderConfig {
+    apiUrl: string;
+    apiKey?: string;
+}
+
+export interface ChatRequest {
+    model: string;
+    messages: Message[];
+    tools?: ToolDefinition[];
+    temperature?: number;
+    maxTokens?: number;
+    signal?: AbortSignal;
+    onStream?: (event: StreamEvent) => void;
+}
+
+export interface ChatResponse {
+    message: Message;
+    // True when the text was already delivered through onStream
+    streamed: boolean;
+}
+
+export interface LLMProvider {
+    readonly kind: ProviderKind;
+    chat(request: ChatRequest): Promise<ChatResponse>;
+}
+
+export function createProvider(kind: ProviderKind, config: ProviderConfig): LLMProvider {
+    switch (kind) {
+        case 'ollama':
+            return new OllamaProvider(config);
+        case 'anthropic':
+            return new AnthropicProvider(config);
+        default:
+            return new OpenAIProvider(config);
+    }
+}
+
+/**
+ * OpenAI-style /v1/embeddings (LM Studio, llama.cpp, Ollama and vLLM all serve
+ * it). When `apiUrl` is a chat endpoint, the embeddings URL is derived from it.
+ */
+export async function createEmbeddings(config: ProviderConfig, model: string, input: string[], signal?: AbortSignal): Promise<number[][]> {
+    const headers: Record<string, string> = {};
+    if (config.apiKey) headers['Authorization'] = `Bearer ${config.apiKey}`;
+
+    const response = await postJson(embeddingsUrl(config.apiUrl), headers, { model, input }, signal);
+    const data = await response.json() as any;
+    if (!Array.isArray(data?.data)) throw new Error(`Unexpected embeddings response: ${JSON.stringify(data).slice(0, 200)}`);
+    return [...data.data]
+        .sort((a: any, b: any) => (a.index ?? 0) - (b.index ?? 0))
+        .map((d: any) => d.embedding);
+}
+
+function embeddingsUrl(apiUrl: string): string {
+    if (/\/embeddings\/?$/.test(apiUrl)) return apiUrl;
+    if (apiUrl.includes('/chat/completions')) return apiUrl.replace(/\/chat\/completions\/?$/, '/embeddings');
+    return `${new URL(apiUrl).origin}/v1/embeddings`;
+}
+
+export interface CompletionRequest {
+    model: string;
+    prompt: string;
+    suffix?: string;      // Text after the cursor; left out when the prompt already carries FIM tokens
+    maxTokens: number;
+    temperature?: number;
+    stop?: string[];
+    signal?: AbortSignal;
+}
+
+/**
+ * Plain text completion for fill-in-the-middle: OpenAI-style /v1/completions
+ * (LM Studio, llama.cpp, vLLM) or Ollama's /api/generate, both of which take
+ * a `suffix`. The URL is derived from the chat `apiUrl` unless given.
+ */
+export async function createCompletion(kind: ProviderKind, config: ProviderConfig, request: CompletionRequest): Promise<string> {
+    const headers: Record<string, string> = {};
+    if (config.apiKey) headers['Authorization'] = `Bearer ${config.apiKey}`;
+
+    if (kind === 'anthropic') throw new Error('Inline completions need an OpenAI-compatible or Ollama server');
+    if (kind === 'ollama') {
+        const response = await postJson(ollamaGenerateUrl(config.apiUrl), headers, {
+            model: request.model,
+            prompt: request.prompt,
+            suffix: request.suffix,
+            raw: request.suffix === undefined,
+            stream: false,
+            options: { num_predict: request.maxTokens, temperature: request.temperature ?? 0.2, stop: request.stop }
+        }, request.signal);
+        const data = await response.json() as any;
+        return data?.response ?? '';
+    }
+
+    const response = await postJson(completionsUrl(config.apiUrl), headers, {
+        model: request.model,
+        prompt: request.prompt,
+        suffix: request.suffix,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature ?? 0.2,
+        stop: request.stop,
+        stream: false
+    }, request.signal);
+    const data = await response.json() as any;
+    return data?.choices?.[0]?.text ?? '';
+}
+
+function completionsUrl(apiUrl: string): string {
+    if (/\/completions\/?$/.test(apiUrl) && !apiUrl.includes('/chat/')) return apiUrl;
+    if (apiUrl.includes('/chat/completions')) return apiUrl.replace(/\/chat\/completions\/?$/, '/completions');
+    return `${new URL(apiUrl).origin}/v1/completions`;
+}
+
+function ollamaGenerateUrl(apiUrl: string): string {
+    if (/\/api\/generate\/?$/.test(apiUrl)) return apiUrl;
+    return `${new URL(apiUrl).origin}/api/generate`;
+}
+
+// Shared helpers
+
+async function postJson(url: string, headers: Record<string, string>, body: any, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+        signal
+    });
+
+    if (!response.ok) {
+        const errorText = await response.text();
+        console.error('[AI Agent] HTTP Error:', response.status, errorText);
+        throw new Error(`HTTP ${response.status}: ${errorText.slice(0, 200)}`);
+    }
+    return response;
+}
+
+async function* readLines(response: Response): AsyncGenerator<string> {
+    if (!response.body) throw new Error('Empty response stream');
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+
+            let newline: number;
+            while ((newline = buffer.indexOf('\n')) >= 0) {
+                const line = buffer.slice(0, newline).trim();
+                buffer = buffer.slice(newline + 1);
+                if (line) yield line;
+            }
+        }
+        const rest = buffer.trim();
+        if (rest) yield rest;
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+// Yields the JSON payload of each `data:` line of a server-sent event stream
+async function* readSSE(response: Response): AsyncGenerator<any> {
+    for await (const line of readLines(response)) {
+        if (!line.startsWith('data:')) continue;
+        const payload = line.slice(5).trim();
+        if (payload === '[DONE]') return;
+        try {
+            yield JSON.parse(payload);
+        } catch (parseErr) {
+            console.error('[AI Agent] Failed to parse stream chunk:', payload, parseErr);
+        }
+    }
+}
+
+function isEventStream(response: Response): boolean {
+    return (response.headers.get('content-type') || '').includes('text/event-stream');
+}
+
+function apiErrorMessage(error: any): string {
+    if (typeof error === 'string') return error;
+    return error?.message || JSON.stringify(error);
+}
+
+function generateCallId(i: number): string {
+    return `call_${Date.now()}_${i}`;
+}
+
+function parseArguments(args: string): Record<string, any> {
+    try {
+        return JSON.parse(args || '{}');
+    } catch {
+        return {};
+    }
+}
+
+// Tracks the start/delta/end lifecycle of streamed assistant text
+class TextStream {
+    text = '';
+    started = false;
+
+    constructor(private onStream?: (event: StreamEvent) => void) {}
+
+    push(text: string) {
+        if (!text) return;
+        if (!this.started) {
+            this.started = true;
+            this.onStream?.({ type: 'start' });
+        }
+        this.text += text;
+        this.onStream?.({ type: 'delta', text });
+    }
+
+    end() {
+        if (this.started) this.onStream?.({ type: 'end' });
+    }
+}
+
+function buildResponse(stream: TextStream, toolCalls: ToolCall[]): ChatResponse {
+    const message: Message = { role: 'assistant', content: stream.text };
+    const calls = toolCalls.filter(Boolean);
+    if (calls.length) {
+        message.tool_calls = calls.map((tc, i) => ({
+            id: tc.id || generateCallId(i),
+            type: 'function',
+            function: tc.function
+        }));
+    }
+    return { message, streamed: stream.started };
+}
+
+// OpenAI chat-completions wire format (LM Studio, llama.cpp server, vLLM, gateways)
+export class OpenAIProvider implements LLMProvider {
+    readonly kind = 'openai';
+
+    constructor(private config: ProviderConfig) {}
+
+    async chat(request: ChatRequest): Promise<ChatResponse> {
+        const headers: Record<string, string> = {};
+        if (this.config.apiKey) headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+
+        const body: any = {
+            model: request.model,
+            messages: request.messages,
+            temperature: request.temperature,
+            max_tokens: request.maxTokens,
+            stream: true
+        };
+        if (request.tools?.length) {
+            body.tools = request.tools;
+            body.tool_choice = 'auto';
+        }
+
+        const response = await postJson(this.config.apiUrl, headers, body, request.signal);
+
+        // Some servers ignore stream: true and answer with a single JSON body
+        if (!isEventStream(response)) {
+            const data: any = await response.json();
+            if (data.error) throw new Error(apiErrorMessage(data.error));
+            const msg = data.choices?.[0]?.message;
+            if (!msg) throw new Error(`Unexpected response: ${JSON.stringify(data).slice(0, 200)}`);
+            return { message: msg, streamed: false };
+        }
+
+        const stream = new TextStream(request.onStream);
+        const toolCalls: ToolCall[] = [];
+        try {
+            for await (const chunk of readSSE(response)) {
+                if (chunk.error) throw new Error(apiErrorMessage(chunk.error));
+
+                const delta = chunk.choices?.[0]?.delta;
+                if (!delta) continue;
+                stream.push(delta.content);
+
+                // Tool-call arguments arrive as fragments keyed by index
+                for (const part of delta.tool_calls || []) {
+                    const idx = part.index ?? toolCalls.length;
+                    if (!toolCalls[idx]) {
+                        toolCalls[idx] = { id: '', function: { name: '', arguments: '' } };
+                    }
+                    const tc = toolCalls[idx];
+                    if (part.id) tc.id = part.id;
+                    if (part.function?.name) tc.function.name += part.function.name;
+                    if (part.function?.arguments) tc.function.arguments += part.function.arguments;
+                }
+            }
+        } finally {
+            stream.end();
+        }
+        return buildResponse(stream, toolCalls);
+    }
+}
+
+// Ollama native /api/chat (newline-delimited JSON stream, object arguments, no call ids)
+export class OllamaProvider implements LLMProvider {
+    readonly kind = 'ollama';
+
+    constructor(private config: ProviderConfig) {}
+
+    private toOllamaMessages(messages: Message[]): any[] {
+        const names = new Map<string, string>();
+        return messages.map(m => {
+            if (m.role === 'assistant' && m.tool_calls?.length) {
+                for (const tc of m.tool_calls) names.set(tc.id, tc.function.name);
+                return {
+                    role: 'assistant',
+                    content: m.content || '',
+                    tool_calls: m.tool_calls.map(tc => ({
+                        function: { name: tc.function.name, arguments: parseArguments(tc.function.arguments) }
+                    }))
+                };
+            }
+            if (m.role === 'tool') {
+                return { role: 'tool', content: m.content || '', tool_name: names.get(m.tool_call_id || '') };
+            }
+            return { role: m.role, content: m.content || '' };
+        });
+    }
+
+    async chat(request: ChatRequest): Promise<ChatResponse> {
+        const headers: Record<string, string> = {};
+        if (this.config.apiKey) headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+
+        const body: any = {
+            model: request.model,
+            messages: this.toOllamaMessages(request.messages),
+            stream: true,
+            options: {
+                temperature: request.temperature,
+                num_predict: request.maxTokens
+            }
+        };
+        if (request.tools?.length) body.tools = request.tools;
+
+        const response = await postJson(this.config.apiUrl, headers, body, request.signal);
+
+        const stream = new TextStream(request.onStream);
+        const toolCalls: ToolCall[] = [];
+        try {
+            for await (const line of readLines(response)) {
+                let chunk: any;
+                try {
+                    chunk = JSON.parse(line);
+                } catch (parseErr) {
+                    console.error('[AI Agent] Failed to parse stream chunk:', line, parseErr);
+                    continue;
+                }
+                if (chunk.error) throw new Error(apiErrorMessage(chunk.error));
+
+                stream.push(chunk.message?.content);
+                for (const tc of chunk.message?.tool_calls || []) {
+                    const args = tc.function?.arguments;
+                    toolCalls.push({
+                        id: generateCallId(toolCalls.length),
+                        function: {
+                            name: tc.function?.name || '',
+                            arguments: typeof args === 'string' ? args : JSON.stringify(args || {})
+                        }
+                    });
+                }
+                if (chunk.done) break;
+            }
+        } finally {
+            stream.end();
+        }
+        return buildResponse(stream, toolCalls);
+    }
+}
+
+// Anthropic Messages API (system prompt out of band, tool_use/tool_result content blocks)
+export class AnthropicProvider implements LLMProvider {
+    readonly kind = 'anthropic';
+
+    constructor(private config: ProviderConfig) {}
+
+    private toAnthropicMessages(messages: Message[]): { system: string; messages: any[] } {
+        const system: string[] = [];
+        const result: any[] = [];
+
+        const append = (role: string, blocks: any[]) => {
+            // Consecutive turns of the same role must be merged
+            const last = result[result.length - 1];
+            if (last && last.role === role) {
+                last.content.push(...blocks);
+            } else {
+                result.push({ role, content: blocks });
+            }
+        };
+
+        for (const m of messages) {
+            if (m.role === 'system') {
+                if (m.content) system.push(m.content);
+            } else if (m.role === 'tool') {
+                append('user', [{ type: 'tool_result', tool_use_id: m.tool_call_id, content: m.content || '' }]);
+            } else if (m.role === 'assistant') {
+                const blocks: any[] = [];
+                if (m.content) blocks.push({ type: 'text', text: m.content });
+                for (const tc of m.tool_calls || []) {
+                    blocks.push({ type: 'tool_use', id: tc.id, name: tc.function.name, input: parseArguments(tc.function.arguments) });
+                }
+                if (blocks.length) append('assistant', blocks);
+            } else {
+                append('user', [{ type: 'text', text: m.content || '' }]);
+            }
+        }
+        return { system: system.join('\n\n'), messages: result };
+    }
+
+    async chat(request: ChatRequest): Promise<ChatResponse> {
+        const headers: Record<string, string> = { 'anthropic-version': '2023-06-01' };
+        if (this.config.apiKey) headers['x-api-key'] = this.config.apiKey;
+
+        const converted = this.toAnthropicMessages(request.messages);
+        const body: any = {
+            model: request.model,
+            messages: converted.messages,
+            max_tokens: request.maxTokens ?? 4096,
+            temperature: request.temperature,
+            stream: true
+        };
+        if (converted.system) body.system = converted.system;
+        if (request.tools?.length) {
+            body.tools = request.tools.map(t => ({
+                name: t.function.name,
+                description: t.function.description,
+                input_schema: t.function.parameters
+            }));
+        }
+
+        const response = await postJson(this.config.apiUrl, headers, body, request.signal);
+
+        const stream = new TextStream(request.onStream);
+        // Content blocks are addressed by index; only tool_use blocks are kept here
+        const toolCalls: ToolCall[] = [];
+        try {
+            for await (const event of readSSE(response)) {
+                switch (event.type) {
+                    case 'error':
+                        throw new Error(apiErrorMessage(event.error));
+                    case 'content_block_start':
+                        if (event.content_block?.type === 'tool_use') {
+                            toolCalls[event.index] = {
+                                id: event.content_block.id,
+                                function: { name: event.content_block.name, arguments: '' }
+                            };
+                        } else if (event.content_block?.type === 'text') {
+                            stream.push(event.content_block.text);
+                        }
+                        break;
+                    case 'content_block_delta':
+                        if (event.delta?.type === 'text_delta') {
+                            stream.push(event.delta.text);
+                        } else if (event.delta?.type === 'input_json_delta' && toolCalls[event.index]) {
+                            toolCalls[event.index].function.arguments += event.delta.partial_json;
+                        }
+                        break;
+                }
+            }
+        } finally {
+            stream.end();
+        }
+        return buildResponse(stream, toolCalls);
+    }
+}
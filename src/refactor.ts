@@ -0,0 +1,189 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CodeNavigator, SymbolPosition } from './navigation';
+
+export interface PlannedEdit {
+    filePath: string;
+    content: string;
+}
+
+// New contents for every file a WorkspaceEdit touches, written by the caller
+export interface EditPlan {
+    description: string;
+    files: PlannedEdit[];
+    note?: string;
+}
+
+export interface CodeActionRequest {
+    path: string;      // Absolute
+    line?: number;     // 1-based, default 1
+    endLine?: number;  // Defaults to `line`
+    kind?: string;     // e.g. "quickfix", "refactor.extract", "source.organizeImports"
+    title?: string;    // Omit to list what is available
+}
+
+// Code actions compute their edit lazily; resolve enough of them to pick from
+const RESOLVE_COUNT = 50;
+
+/**
+ * Rename and code actions through the language server. Nothing is written
+ * here: the resulting WorkspaceEdit is turned into full file contents so the
+ * agent can push them through its normal review, backup and undo path.
+ */
+export class CodeRefactor {
+    constructor(private workspaceRoot: string, private navigator: CodeNavigator) {}
+
+    private rel(uri: vscode.Uri): string {
+        const rel = path.relative(this.workspaceRoot, uri.fsPath);
+        return rel.startsWith('..') ? uri.fsPath : rel.replace(/\\/g, '/');
+    }
+
+    async rename(target: SymbolPosition, newName: string): Promise<EditPlan | string> {
+        const at = await this.navigator.resolve(target);
+        if (typeof at === 'string') return at;
+
+        const doc = await vscode.workspace.openTextDocument(at.uri);
+        const wordRange = doc.getWordRangeAtPosition(at.position);
+        const oldName = wordRange ? doc.getText(wordRange) : target.symbol ?? 'symbol';
+
+        let edit: vscode.WorkspaceEdit | undefined;
+        try {
+            edit = await vscode.commands.executeCommand<vscode.WorkspaceEdit>(
+                'vscode.executeDocumentRenameProvider', at.uri, at.position, newName
+            );
+        } catch (e: any) {
+            return `Error: Cannot rename "${oldName}": ${e?.message || e}`;
+        }
+        if (!edit || edit.size === 0) {
+            return `Error: No rename available for "${oldName}" (is a language extension for this file type installed?)`;
+        }
+        return this.toPlan(edit, `Renamed "${oldName}" to "${newName}"`);
+    }
+
+    async codeAction(request: CodeActionRequest): Promise<EditPlan | string> {
+        const uri = vscode.Uri.file(request.path);
+        let doc: vscode.TextDocument;
+        try {
+            doc = await vscode.workspace.openTextDocument(uri);
+        } catch {
+            return `Error: Cannot open ${request.path}`;
+        }
+
+        const clamp = (line: number) => Math.min(Math.max(line - 1, 0), doc.lineCount - 1);
+        const start = clamp(request.line ?? 1);
+        const end = Math.max(start, clamp(request.endLine ?? request.line ?? 1));
+        const range = new vscode.Range(start, 0, end, doc.lineAt(end).text.length);
+
+        const actions = await this.fetchActions(uri, range, request.kind);
+        const where = `${this.rel(uri)}:${start + 1}${end > start ? `-${end + 1}` : ''}`;
+        if (actions.length === 0) return `No code actions available at ${where}${request.kind ? ` of kind ${request.kind}` : ''}`;
+
+        const listing = actions.map(a => {
+            const kind = a.kind ? ` [${a.kind.value}]` : '';
+            const flags = a.disabled ? ` (unavailable: ${a.disabled.reason})` : a.isPreferred ? ' (preferred)' : '';
+            return `- ${a.title}${kind}${flags}`;
+        }).join('\n');
+        if (!request.title) return `Code actions at ${where}:\n${listing}\nCall again with title to apply one.`;
+
+        const wanted = request.title.toLowerCase();
+        const action = actions.find(a => a.title === request.title)
+            ?? actions.find(a => a.title.toLowerCase() === wanted)
+            ?? actions.find(a => a.title.toLowerCase().includes(wanted));
+        if (!action) return `Error: No code action titled "${request.title}" at ${where}. Available:\n${listing}`;
+        if (action.disabled) return `Error: "${action.title}" is unavailable here: ${action.disabled.reason}`;
+        if (!action.edit || action.edit.size === 0) {
+            return `Error: "${action.title}" only runs an editor command, so it cannot be reviewed or undone. Make the change with edit_file instead.`;
+        }
+
+        const plan = await this.toPlan(action.edit, `Applied "${action.title}"`);
+        if (typeof plan !== 'string' && action.command) {
+            plan.note = `its follow-up command (${action.command.title || action.command.command}) was not run`;
+        }
+        return plan;
+    }
+
+    // Source actions (organize imports, fix all) are only returned when asked for by kind
+    private async fetchActions(uri: vscode.Uri, range: vscode.Range, kind?: string): Promise<vscode.CodeAction[]> {
+        const actions: vscode.CodeAction[] = [];
+        const seen = new Set<string>();
+        for (const only of kind ? [kind] : [undefined, vscode.CodeActionKind.Source.value]) {
+            const results = await vscode.commands.executeCommand<(vscode.CodeAction | vscode.Command)[]>(
+                'vscode.executeCodeActionProvider', uri, range, only, RESOLVE_COUNT
+            ) || [];
+            for (const result of results) {
+                // A bare Command has a string `command`; a CodeAction's is an object or absent
+                if (typeof (result as vscode.Command).command === 'string') continue;
+                const action = result as vscode.CodeAction;
+                if (seen.has(action.title)) continue;
+                seen.add(action.title);
+                actions.push(action);
+            }
+        }
+        return actions;
+    }
+
+    /**
+     * Apply the edit's text changes to each file's current text. Open editors
+     * are used as the source since the language server computed positions
+     * against them; files the edit creates start out empty.
+     */
+    private async toPlan(edit: vscode.WorkspaceEdit, description: string): Promise<EditPlan | string> {
+        const files: PlannedEdit[] = [];
+        let total = 0;
+        const touched: string[] = [];
+
+        for (const [uri, edits] of edit.entries()) {
+            if (uri.scheme !== 'file') return `Error: The change touches ${uri.toString()}, which is not a file on disk. No changes were made.`;
+            if (edits.length === 0) continue;
+
+            const open = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+            let text: string;
+            if (open) {
+                text = open.getText();
+            } else {
+                try {
+                    text = fs.existsSync(uri.fsPath) ? fs.readFileSync(uri.fsPath, 'utf-8') : '';
+                } catch (e: any) {
+                    return `Error: Cannot read ${this.rel(uri)}: ${e.message}`;
+                }
+            }
+
+            files.push({ filePath: uri.fsPath, content: applyTextEdits(text, edits) });
+            total += edits.length;
+            touched.push(`${this.rel(uri)} (${edits.length})`);
+        }
+
+        if (files.length === 0) return 'Error: The language server returned an empty edit. No changes were made.';
+        return { description: `${description}: ${total} edit(s) in ${touched.join(', ')}`, files };
+    }
+}
+
+function lineStarts(text: string): number[] {
+    const starts = [0];
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '\n') starts.push(i + 1);
+    }
+    return starts;
+}
+
+// Edits never overlap; apply back to front so earlier offsets stay valid
+function applyTextEdits(text: string, edits: readonly vscode.TextEdit[]): string {
+    const starts = lineStarts(text);
+    const offsetAt = (pos: vscode.Position) => {
+        if (pos.line >= starts.length) return text.length;
+        const lineEnd = pos.line + 1 < starts.length ? starts[pos.line + 1] - 1 : text.length;
+        return Math.min(starts[pos.line] + pos.character, lineEnd);
+    };
+
+    // Inserts at the same offset keep their order, so sort by (start, index) descending
+    const ordered = edits
+        .map((edit, index) => ({ start: offsetAt(edit.range.start), end: offsetAt(edit.range.end), text: edit.newText, index }))
+        .sort((a, b) => b.start - a.start || b.index - a.index);
+
+    let result = text;
+    for (const e of ordered) {
+        result = result.slice(0, e.start) + e.text + result.slice(e.end);
+    }
+    return result;
+}
@@ -0,0 +1,200 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { applySelectedHunks, computeHunks, Hunk } from './diff';
+
+export interface ReviewOutcome {
+    content: string | null;  // null when nothing was accepted
+    accepted: number[];      // 1-based hunk numbers
+    rejected: number[];
+    total: number;
+    summary: string;
+}
+
+interface PendingReview {
+    filePath: string;
+    original: string;
+    proposed: string;
+    hunks: Hunk[];
+    resolve: (accepted: Set<number>) => void;
+}
+
+/**
+ * Shows proposed writes in the native diff editor (current vs proposed, both
+ * served as read-only virtual documents) and lets the user accept or reject
+ * the whole file or individual hunks.
+ */
+export class DiffReview implements vscode.TextDocumentContentProvider {
+    public static readonly scheme = 'ai-agent-proposed';
+    private pending = new Map<string, PendingReview>();
+    private disposables: vscode.Disposable[] = [];
+    private nextId = 0;
+
+    constructor() {
+        this.disposables.push(
+            vscode.workspace.registerTextDocumentContentProvider(DiffReview.scheme, this),
+            vscode.commands.registerCommand('ai-agent.acceptAllChanges', (uri?: vscode.Uri) => this.acceptAll(uri)),
+            vscode.commands.registerCommand('ai-agent.rejectAllChanges', (uri?: vscode.Uri) => this.rejectAll(uri)),
+            vscode.commands.registerCommand('ai-agent.chooseHunks', (uri?: vscode.Uri) => this.chooseHunks(uri)),
+            // Closing the diff without deciding counts as rejecting it
+            vscode.window.tabGroups.onDidChangeTabs(e => {
+                for (const tab of e.closed) {
+                    if (tab.input instanceof vscode.TabInputTextDiff && tab.input.modified.scheme === DiffReview.scheme) {
+                        this.finish(this.key(tab.input.modified), new Set());
+                    }
+                }
+            })
+        );
+    }
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        const review = this.pending.get(this.key(uri));
+        if (!review) return '';
+        return uri.query === 'original' ? review.original : review.proposed;
+    }
+
+    // Aborting `signal` (Stop) rejects the whole change and closes the diff
+    async review(filePath: string, original: string, proposed: string, stat?: string, signal?: AbortSignal): Promise<ReviewOutcome> {
+        const oldLines = original.split('\n');
+        const newLines = proposed.split('\n');
+        const hunks = computeHunks(oldLines, newLines);
+        if (hunks.length === 0) {
+            return { content: proposed, accepted: [], rejected: [], total: 0, summary: 'No changes' };
+        }
+        if (signal?.aborted) return this.stopped(oldLines, hunks);
+
+        const id = ++this.nextId;
+        const rel = vscode.workspace.asRelativePath(filePath);
+        const modified = vscode.Uri.from({ scheme: DiffReview.scheme, path: `/${id}/${rel}` });
+        const left = modified.with({ query: 'original' });
+
+        const onAbort = () => this.finish(this.key(modified), new Set());
+        signal?.addEventListener('abort', onAbort, { once: true });
+        const accepted = await new Promise<Set<number>>(resolve => {
+            this.pending.set(this.key(modified), { filePath, original, proposed, hunks, resolve });
+
+            vscode.commands.executeCommand(
+                'vscode.diff', left, modified,
+                `${path.basename(filePath)}: Current ↔ Proposed (${hunks.length} hunk${hunks.length === 1 ? '' : 's'})`,
+                { preview: false }
+            );
+
+            vscode.window.showInformationMessage(
+                `AI Agent wants to ${original ? 'modify' : 'create'} ${rel} (${hunks.length} hunk${hunks.length === 1 ? '' : 's'}${stat ? `, ${stat}` : ''})`,
+                'Accept All', 'Choose Hunks...', 'Reject All'
+            ).then(choice => {
+                if (choice === 'Accept All') this.acceptAll(modified);
+                else if (choice === 'Reject All') this.rejectAll(modified);
+                else if (choice === 'Choose Hunks...') this.chooseHunks(modified);
+                // Dismissed: the editor title buttons stay available
+            });
+        });
+        signal?.removeEventListener('abort', onAbort);
+
+        return signal?.aborted ? this.stopped(oldLines, hunks) : this.buildOutcome(oldLines, hunks, accepted);
+    }
+
+    private stopped(oldLines: string[], hunks: Hunk[]): ReviewOutcome {
+        return { ...this.buildOutcome(oldLines, hunks, new Set()), summary: 'Stopped before the review was finished' };
+    }
+
+    private buildOutcome(oldLines: string[], hunks: Hunk[], accepted: Set<number>): ReviewOutcome {
+        const acceptedNums: number[] = [];
+        const rejectedNums: number[] = [];
+        hunks.forEach((_, i) => (accepted.has(i) ? acceptedNums : rejectedNums).push(i + 1));
+
+        const describe = (n: number) => {
+            const h = hunks[n - 1];
+            const start = h.oldStart + 1;
+            return h.oldLines.length
+                ? `#${n} (old lines ${start}-${start + h.oldLines.length - 1})`
+                : `#${n} (insert after line ${h.oldStart})`;
+        };
+
+        let summary: string;
+        if (rejectedNums.length === 0) {
+            summary = `All ${hunks.length} hunk(s) accepted`;
+        } else if (acceptedNums.length === 0) {
+            summary = `All ${hunks.length} hunk(s) rejected`;
+        } else {
+            summary = `Accepted hunks ${acceptedNums.map(describe).join(', ')}; rejected ${rejectedNums.map(describe).join(', ')}`;
+        }
+
+        return {
+            content: acceptedNums.length ? applySelectedHunks(oldLines, hunks, accepted).join('\n') : null,
+            accepted: acceptedNums,
+            rejected: rejectedNums,
+            total: hunks.length,
+            summary
+        };
+    }
+
+    private key(uri: vscode.Uri): string {
+        return uri.with({ query: '' }).toString();
+    }
+
+    // Commands receive the URI of the active diff editor; fall back to the only pending review
+    private find(uri?: vscode.Uri): string | undefined {
+        if (uri && this.pending.has(this.key(uri))) return this.key(uri);
+        const active = vscode.window.tabGroups.activeTabGroup.activeTab?.input;
+        if (active instanceof vscode.TabInputTextDiff && this.pending.has(this.key(active.modified))) {
+            return this.key(active.modified);
+        }
+        if (this.pending.size === 1) return this.pending.keys().next().value;
+        return undefined;
+    }
+
+    private acceptAll(uri?: vscode.Uri) {
+        const key = this.find(uri);
+        const review = key && this.pending.get(key);
+        if (key && review) this.finish(key, new Set(review.hunks.map((_, i) => i)));
+    }
+
+    private rejectAll(uri?: vscode.Uri) {
+        const key = this.find(uri);
+        if (key) this.finish(key, new Set());
+    }
+
+    private async chooseHunks(uri?: vscode.Uri) {
+        const key = this.find(uri);
+        const review = key && this.pending.get(key);
+        if (!key || !review) return;
+
+        const items = review.hunks.map((h, i) => {
+            const preview = (h.newLines.find(l => l.trim()) ?? h.oldLines.find(l => l.trim()) ?? '').trim();
+            return {
+                label: `Hunk ${i + 1}: line ${h.oldStart + 1}`,
+                description: `-${h.oldLines.length} +${h.newLines.length}`,
+                detail: preview.slice(0, 120),
+                picked: true,
+                index: i
+            };
+        });
+
+        const picked = await vscode.window.showQuickPick(items, {
+            canPickMany: true,
+            title: `Hunks to apply to ${path.basename(review.filePath)}`,
+            placeHolder: 'Unchecked hunks are rejected'
+        });
+        // Escape keeps the review open
+        if (!picked) return;
+        this.finish(key, new Set(picked.map(p => p.index)));
+    }
+
+    private finish(key: string, accepted: Set<number>) {
+        const review = this.pending.get(key);
+        if (!review) return;
+        this.pending.delete(key);
+        review.resolve(accepted);
+
+        for (const tab of vscode.window.tabGroups.all.flatMap(g => g.tabs)) {
+            if (tab.input instanceof vscode.TabInputTextDiff && this.key(tab.input.modified) === key) {
+                vscode.window.tabGroups.close(tab);
+            }
+        }
+    }
+
+    dispose() {
+        for (const key of [...this.pending.keys()]) this.finish(key, new Set());
+        this.disposables.forEach(d => d.dispose());
+    }
+}
@@ -1,6 +1,10 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import { DiffReview, ReviewOutcome } from './review';
+import { diffStat, formatUnifiedDiff } from './diff';
+import { CommandPolicy, SegmentVerdict } from './commandPolicy';
+import { SecretRedactor } from './redaction';
 
 export interface FileChange {
     path: string;
@@ -13,8 +17,12 @@ export class Safety {
     private workspaceRoot: string;
     private backupDir: string;
     private changeHistory: FileChange[] = [];
+    // Content of every touched file before its first change this session (null = created)
+    private sessionOriginals = new Map<string, string | null>();
     private maxHistorySize = 50;
     private maxFileSize = 1024 * 1024; // 1MB
+    private review = new DiffReview();
+    private commandPolicy: CommandPolicy;
 
     private dangerousCommands = [
         /^rm\s+(-rf?|--recursive).*[\/\\]$/i,
@@ -40,19 +48,21 @@ export class Safety {
         /wget.*\|\s*(ba)?sh/i,
     ];
 
-    private sensitivePatterns = [
-        /password\s*[:=]/i,
-        /api[_-]?key\s*[:=]/i,
-        /secret\s*[:=]/i,
-        /token\s*[:=]/i,
-        /private[_-]?key/i,
-        /-----BEGIN\s+(RSA\s+)?PRIVATE\s+KEY-----/,
-        /-----BEGIN\s+OPENSSH\s+PRIVATE\s+KEY-----/,
+    private redactor = new SecretRedactor();
+
+    // .env files and key material are never read or written without an explicit allowance
+    private sensitiveFiles = [
+        /^\.env(\..+)?$/i,
+        /\.(pem|key|p12|pfx|jks|keystore)$/i,
+        /^id_(rsa|dsa|ecdsa|ed25519)$/i,
+        /^\.(netrc|pgpass)$/i,
     ];
+    private sensitiveFileExceptions = /^\.env\.(example|sample|template|dist)$/i;
 
     constructor(workspaceRoot: string) {
         this.workspaceRoot = workspaceRoot;
         this.backupDir = path.join(workspaceRoot, '.ai-agent', 'backups');
+        this.commandPolicy = new CommandPolicy(workspaceRoot, this.dangerousCommands);
     }
 
     isPathSafe(filePath: string): { safe: boolean; reason?: string } {
@@ -63,30 +73,96 @@ export class Safety {
             return { safe: false, reason: 'Path is outside workspace' };
         }
 
-        const dangerous = ['.git', 'node_modules/.bin', '.env', '.env.local', '.env.production'];
-        for (const pattern of dangerous) {
-            if (relative.startsWith(pattern) || relative.includes(`/${pattern}`) || relative.includes(`\\${pattern}`)) {
-                if (pattern === '.git') {
-                    return { safe: false, reason: 'Cannot modify .git directory' };
-                }
-            }
+        const parts = relative.split(/[\/\\]/);
+        if (parts.includes('.git')) {
+            return { safe: false, reason: 'Cannot modify .git directory' };
+        }
+        // The extension's own data, including the saved "always allow" command approvals
+        if (parts[0] === '.ai-agent') {
+            return { safe: false, reason: 'Cannot access .ai-agent directory' };
+        }
+
+        if (this.isSensitiveFile(relative)) {
+            return {
+                safe: false,
+                reason: `${path.basename(relative)} may contain secrets. Add it to "ai-agent.allowedSensitiveFiles" to let the agent access it`
+            };
         }
 
         return { safe: true };
     }
 
+    private isSensitiveFile(relative: string): boolean {
+        const name = path.basename(relative);
+        if (this.sensitiveFileExceptions.test(name)) return false;
+        if (!this.sensitiveFiles.some(p => p.test(name))) return false;
+
+        // Entries are workspace-relative paths, where `*` matches within a path segment
+        const posix = relative.replace(/\\/g, '/');
+        const allowed = vscode.workspace.getConfiguration('ai-agent').get<string[]>('allowedSensitiveFiles') || [];
+        return !allowed.some(entry => {
+            const pattern = entry.trim().replace(/\\/g, '/').replace(/^\.\//, '')
+                .split('*').map(p => p.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*');
+            return pattern && new RegExp(`^${pattern}$`, 'i').test(posix);
+        });
+    }
+
+    /**
+     * Replace secrets in text headed for the model with placeholders. The same
+     * secret always gets the same placeholder for the rest of the session.
+     */
+    redactSecrets(text: string): { text: string; count: number; kinds: string[] } {
+        return this.redactor.redact(text);
+    }
+
+    // Map placeholders the model echoes back (e.g. in write_file content) to the real values
+    restoreSecrets(text: string): string {
+        return this.redactor.restore(text);
+    }
+
+    private denyReason(segment: SegmentVerdict): string {
+        if (segment.rule === 'commandDefault') return `"${segment.command}" matches no allow rule and "ai-agent.commandDefault" is "deny"`;
+        return `"${segment.command}" matches deny rule (${segment.rule})`;
+    }
+
+    // Every part of a compound command (&&, ;, pipes, subshells) is checked on its own
     isCommandSafe(cmd: string): { safe: boolean; reason?: string } {
-        const trimmed = cmd.trim();
-        
-        for (const pattern of this.dangerousCommands) {
-            if (pattern.test(trimmed)) {
-                return { safe: false, reason: `Blocked dangerous command pattern` };
-            }
+        const result = this.commandPolicy.evaluate(cmd);
+        const denied = result.segments.find(s => s.decision === 'deny');
+        if (denied) {
+            return { safe: false, reason: this.denyReason(denied) };
         }
-
         return { safe: true };
     }
 
+    // Applies the allow/deny/ask policy, prompting the user for anything that needs approval
+    async approveCommand(cmd: string): Promise<{ allowed: boolean; reason?: string }> {
+        const result = this.commandPolicy.evaluate(cmd);
+        const denied = result.segments.find(s => s.decision === 'deny');
+        if (denied) {
+            return { allowed: false, reason: this.denyReason(denied) };
+        }
+        if (result.decision === 'allow') return { allowed: true };
+
+        const pending = result.segments.filter(s => s.decision === 'ask');
+        const choice = await vscode.window.showWarningMessage(
+            'The AI agent wants to run a command that needs approval.',
+            {
+                modal: true,
+                detail: `${cmd}\n\nNeeds approval:\n${pending.map(s => `• ${s.command}${s.rule ? `  (rule: ${s.rule})` : ''}`).join('\n')}`
+            },
+            'Run Once',
+            'Always Allow in This Workspace'
+        );
+
+        if (choice === 'Always Allow in This Workspace') {
+            this.commandPolicy.rememberApproval(pending.map(s => s.command));
+            return { allowed: true };
+        }
+        if (choice === 'Run Once') return { allowed: true };
+        return { allowed: false, reason: 'Denied by user' };
+    }
+
     checkFileSize(filePath: string): { ok: boolean; size?: number; reason?: string } {
         try {
             const stats = fs.statSync(filePath);
@@ -125,6 +201,9 @@ export class Safety {
     }
 
     recordChange(filePath: string, oldContent: string | null, newContent: string) {
+        if (!this.sessionOriginals.has(filePath)) {
+            this.sessionOriginals.set(filePath, oldContent);
+        }
         this.changeHistory.push({
             path: filePath,
             oldContent,
@@ -163,83 +242,50 @@ export class Safety {
         }
     }
 
-    generateDiff(oldContent: string, newContent: string, filePath: string): string {
-        const oldLines = oldContent.split('\n');
-        const newLines = newContent.split('\n');
-        const diff: string[] = [`--- ${filePath}`, `+++ ${filePath}`];
-        
-        let i = 0, j = 0;
-        while (i < oldLines.length || j < newLines.length) {
-            if (i >= oldLines.length) {
-                diff.push(`+${newLines[j]}`);
-                j++;
-            } else if (j >= newLines.length) {
-                diff.push(`-${oldLines[i]}`);
-                i++;
-            } else if (oldLines[i] === newLines[j]) {
-                diff.push(` ${oldLines[i]}`);
-                i++;
-                j++;
-            } else {
-                let foundMatch = false;
-                for (let k = 1; k <= 3; k++) {
-                    if (i + k < oldLines.length && oldLines[i + k] === newLines[j]) {
-                        for (let m = 0; m < k; m++) {
-                            diff.push(`-${oldLines[i + m]}`);
-                        }
-                        i += k;
-                        foundMatch = true;
-                        break;
-                    }
-                    if (j + k < newLines.length && oldLines[i] === newLines[j + k]) {
-                        for (let m = 0; m < k; m++) {
-                            diff.push(`+${newLines[j + m]}`);
-                        }
-                        j += k;
-                        foundMatch = true;
-                        break;
-                    }
-                }
-                if (!foundMatch) {
-                    diff.push(`-${oldLines[i]}`);
-                    diff.push(`+${newLines[j]}`);
-                    i++;
-                    j++;
-                }
-            }
-        }
-
-        const filteredDiff = diff.filter((line, idx) => {
-            if (idx < 2) return true;
-            if (!line.startsWith(' ')) return true;
-            const nearby = diff.slice(Math.max(2, idx - 2), Math.min(diff.length, idx + 3));
-            return nearby.some(l => l.startsWith('+') || l.startsWith('-'));
+    generateDiff(oldContent: string, newContent: string, filePath: string, context: number = 3): string {
+        const relative = path.relative(this.workspaceRoot, filePath).replace(/\\/g, '/');
+        return formatUnifiedDiff(oldContent, newContent, {
+            oldPath: `a/${relative}`,
+            newPath: `b/${relative}`,
+            context
         });
+    }
 
-        return filteredDiff.slice(0, 50).join('\n') + (filteredDiff.length > 50 ? '\n... (truncated)' : '');
+    // Compact "+added -removed" line counts for tool results
+    summarizeChange(oldContent: string | null, newContent: string): string {
+        const { added, removed } = diffStat(oldContent ?? '', newContent);
+        return `+${added} -${removed}`;
     }
 
-    async confirmWrite(filePath: string, newContent: string): Promise<boolean> {
-        const exists = fs.existsSync(filePath);
-        const oldContent = exists ? fs.readFileSync(filePath, 'utf-8') : '';
-        
-        let message: string;
-        if (!exists) {
-            message = `Create new file: ${path.basename(filePath)}?`;
-        } else {
-            const diff = this.generateDiff(oldContent, newContent, filePath);
-            const lineCountOld = oldContent.split('\n').length;
-            const lineCountNew = newContent.split('\n').length;
-            message = `Modify ${path.basename(filePath)}? (${lineCountOld} → ${lineCountNew} lines)\n\nPreview:\n${diff.slice(0, 500)}`;
+    // Unified diff of everything changed this session, from each file's original content to what is on disk now
+    getSessionChanges(filter?: string, context: number = 3): string {
+        const diffs: string[] = [];
+        for (const [filePath, original] of this.sessionOriginals) {
+            const relative = path.relative(this.workspaceRoot, filePath);
+            if (filter && !relative.includes(filter)) continue;
+            
+            const current = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : null;
+            if (current === original) continue;
+            
+            const posix = relative.replace(/\\/g, '/');
+            diffs.push(formatUnifiedDiff(original ?? '', current ?? '', {
+                oldPath: original === null ? '/dev/null' : `a/${posix}`,
+                newPath: current === null ? '/dev/null' : `b/${posix}`,
+                context
+            }));
         }
+        return diffs.join('\n');
+    }
 
-        const result = await vscode.window.showWarningMessage(
-            message,
-            { modal: true },
-            'Apply',
-            'Cancel'
-        );
+    // Opens the proposed content in a diff editor and waits for the user to accept/reject hunks
+    async confirmWrite(filePath: string, newContent: string, signal?: AbortSignal): Promise<ReviewOutcome> {
+        const exists = fs.existsSync(filePath);
+        const oldContent = exists ? fs.readFileSync(filePath, 'utf-8') : '';
+        // The diff is shown only in the review editor: file content must not reach the host log unredacted
+        return this.review.review(filePath, oldContent, newContent, this.summarizeChange(exists ? oldContent : null, newContent), signal);
+    }
 
-        return result === 'Apply';
+    dispose() {
+        this.review.dispose();
     }
 }
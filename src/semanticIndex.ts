@@ -0,0 +1,337 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { Cache } from './cache';
+import { createEmbeddings, ProviderConfig } from './providers';
+
+export interface EmbeddingConfig extends ProviderConfig {
+    model: string;  // Empty: BM25 only
+}
+
+export interface SearchHit {
+    path: string;       // Workspace-relative
+    startLine: number;  // 1-based, inclusive
+    endLine: number;
+    score: number;
+    text: string;
+}
+
+interface Chunk {
+    start: number;   // 0-based line
+    end: number;     // exclusive
+    text: string;
+    vector?: string; // Base64 Float32Array
+}
+
+interface FileEntry {
+    mtime: number;
+    size: number;
+    chunks: Chunk[];
+}
+
+interface IndexData {
+    version: number;
+    model: string;   // Embedding model the stored vectors came from
+    files: Record<string, FileEntry>;
+}
+
+const INDEX_VERSION = 1;
+const CHUNK_LINES = 40;
+const CHUNK_OVERLAP = 8;
+const MAX_FILE_SIZE = 256 * 1024;
+const EMBED_BATCH = 32;
+const FILE_BATCH = 50;     // Files read between yields to the extension host
+const IGNORED_DIRS = ['.git', 'node_modules', '.ai-agent', 'out', 'dist', '__pycache__', '.next', 'vendor'];
+const TEXT_EXTENSIONS = new Set([
+    '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.json', '.md', '.py', '.rb', '.go', '.rs', '.java', '.kt',
+    '.c', '.h', '.cc', '.cpp', '.hpp', '.cs', '.php', '.swift', '.scala', '.sh', '.sql', '.html', '.css',
+    '.scss', '.vue', '.svelte', '.yaml', '.yml', '.toml', '.xml', '.txt', '.lua', '.dart', '.ex', '.exs'
+]);
+
+// Identifiers are split on camelCase and snake_case so `getUserName` matches "user name"
+function tokenize(text: string): string[] {
+    const tokens: string[] = [];
+    for (const word of text.match(/[A-Za-z_][A-Za-z0-9_]*|\d+/g) || []) {
+        const lower = word.toLowerCase();
+        tokens.push(lower);
+        const parts = word.split(/_|(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/).filter(Boolean);
+        if (parts.length > 1) tokens.push(...parts.map(p => p.toLowerCase()));
+    }
+    return tokens.filter(t => t.length > 1);
+}
+
+function encodeVector(v: number[]): string {
+    return Buffer.from(new Float32Array(v).buffer).toString('base64');
+}
+
+function decodeVector(s: string): Float32Array {
+    const buf = Buffer.from(s, 'base64');
+    return new Float32Array(buf.buffer, buf.byteOffset, buf.byteLength / 4);
+}
+
+const yieldToHost = () => new Promise<void>(resolve => setImmediate(resolve));
+
+function cosine(a: ArrayLike<number>, b: ArrayLike<number>): number {
+    let dot = 0, na = 0, nb = 0;
+    for (let i = 0; i < a.length && i < b.length; i++) {
+        dot += a[i] * b[i];
+        na += a[i] * a[i];
+        nb += b[i] * b[i];
+    }
+    return na && nb ? dot / Math.sqrt(na * nb) : 0;
+}
+
+/**
+ * Chunked index of workspace text files in .ai-agent/semantic-index.json.
+ * Ranks chunks by embedding similarity when an embedding model is configured
+ * and falls back to BM25 keyword scoring otherwise. Files reported by the
+ * Cache watcher are re-chunked on the next search.
+ */
+export class SemanticIndex {
+    private indexFile: string;
+    private data: IndexData | null = null;
+    private stored?: Promise<IndexData | null>;  // The saved index, read once
+    private saving = Promise.resolve();
+    private dirty = new Set<string>();  // Relative paths changed since the last refresh
+    private termCache = new Map<Chunk, Map<string, number>>();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private workspaceRoot: string,
+        private cache: Cache,
+        private canIndex: (filePath: string) => boolean = () => true,
+        private redact: (text: string) => string = text => text
+    ) {
+        this.indexFile = path.join(workspaceRoot, '.ai-agent', 'semantic-index.json');
+        this.disposables.push(cache.onDidChangeFile(change => {
+            const rel = path.relative(this.workspaceRoot, change.path);
+            if (this.isIndexable(rel)) this.dirty.add(rel);
+        }));
+    }
+
+    private isIndexable(rel: string): boolean {
+        if (!rel || rel.startsWith('..') || path.isAbsolute(rel)) return false;
+        const parts = rel.split(/[\/\\]/);
+        if (parts.some(p => IGNORED_DIRS.includes(p) || (p.startsWith('.') && p !== '.env.example'))) return false;
+        return TEXT_EXTENSIONS.has(path.extname(rel).toLowerCase());
+    }
+
+    private async load(model: string): Promise<IndexData> {
+        this.stored ??= fs.promises.readFile(this.indexFile, 'utf-8')
+            .then(text => {
+                const loaded: IndexData = JSON.parse(text);
+                return loaded.version === INDEX_VERSION ? loaded : null;
+            })
+            .catch(() => null);
+        const stored = await this.stored;
+        if (!this.data) this.data = stored || { version: INDEX_VERSION, model, files: {} };
+        // Vectors from another model are not comparable with new ones
+        if (this.data.model !== model) {
+            for (const entry of Object.values(this.data.files)) entry.chunks.forEach(c => delete c.vector);
+            this.data.model = model;
+        }
+        return this.data;
+    }
+
+    // Writes are queued so two refreshes never write the file at once
+    private save(): Promise<void> {
+        const text = JSON.stringify(this.data);
+        this.saving = this.saving.then(async () => {
+            try {
+                await fs.promises.mkdir(path.dirname(this.indexFile), { recursive: true });
+                await fs.promises.writeFile(this.indexFile, text, 'utf-8');
+            } catch (err) {
+                console.error('[AI Agent Semantic] Failed to save index:', err);
+            }
+        });
+        return this.saving;
+    }
+
+    private chunkFile(content: string): Chunk[] {
+        const lines = content.split('\n');
+        const chunks: Chunk[] = [];
+        for (let start = 0; start < lines.length; start += CHUNK_LINES - CHUNK_OVERLAP) {
+            const end = Math.min(start + CHUNK_LINES, lines.length);
+            const text = lines.slice(start, end).join('\n');
+            if (text.trim()) chunks.push({ start, end, text });
+            if (end === lines.length) break;
+        }
+        return chunks;
+    }
+
+    // Bring the index in line with the workspace: new, changed and deleted files, then missing vectors
+    private async refresh(config: EmbeddingConfig, embed: boolean, signal?: AbortSignal): Promise<IndexData> {
+        await this.cache.whenIndexed();
+        const data = await this.load(config.model);
+        // Files changed while this refresh runs stay dirty for the next one
+        const dirty = new Set(this.dirty);
+        this.dirty.clear();
+        // Files the read policy refuses are never chunked; ones it has started refusing are dropped below
+        const files = this.cache.getAllFiles().filter(rel => this.isIndexable(rel) && this.canIndex(path.join(this.workspaceRoot, rel)));
+        const present = new Set(files);
+        let changed = false;
+
+        for (const rel of Object.keys(data.files)) {
+            if (!present.has(rel)) {
+                delete data.files[rel];
+                changed = true;
+            }
+        }
+
+        // Read asynchronously and in batches, as the Cache walk does, so a first search does not block the host
+        for (const [i, rel] of files.entries()) {
+            if (i > 0 && i % FILE_BATCH === 0) await yieldToHost();
+            const full = path.join(this.workspaceRoot, rel);
+            let stats: fs.Stats;
+            try {
+                stats = await fs.promises.stat(full);
+            } catch {
+                continue;
+            }
+            const entry = data.files[rel];
+            if (entry && !dirty.has(rel) && entry.mtime === stats.mtimeMs && entry.size === stats.size) continue;
+
+            changed = true;
+            if (stats.size > MAX_FILE_SIZE) {
+                data.files[rel] = { mtime: stats.mtimeMs, size: stats.size, chunks: [] };
+                continue;
+            }
+            let content: string;
+            try {
+                content = await fs.promises.readFile(full, 'utf-8');
+            } catch {
+                continue;
+            }
+            if (content.includes('\0')) {
+                data.files[rel] = { mtime: stats.mtimeMs, size: stats.size, chunks: [] };
+                continue;
+            }
+            data.files[rel] = { mtime: stats.mtimeMs, size: stats.size, chunks: this.chunkFile(content) };
+        }
+
+        const missing = embed && config.model ? this.missingVectors(data) : [];
+        try {
+            if (missing.length) {
+                changed = true;
+                await this.embed(missing, config, signal);
+            }
+        } finally {
+            // Keep whatever was embedded before a failure
+            if (changed) {
+                this.termCache.clear();
+                await this.save();
+            }
+        }
+        return data;
+    }
+
+    private missingVectors(data: IndexData): { rel: string; chunk: Chunk }[] {
+        return Object.entries(data.files).flatMap(([rel, entry]) =>
+            entry.chunks.filter(c => !c.vector).map(c => ({ rel, chunk: c }))
+        );
+    }
+
+    private async embed(missing: { rel: string; chunk: Chunk }[], config: EmbeddingConfig, signal?: AbortSignal): Promise<void> {
+        await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Window, title: 'AI Agent: embedding' },
+            async progress => {
+                for (let i = 0; i < missing.length; i += EMBED_BATCH) {
+                    progress.report({ message: `${i}/${missing.length} chunks` });
+                    const batch = missing.slice(i, i + EMBED_BATCH);
+                    // The embedding server may be remote: chunks leave the machine like any prompt
+                    const vectors = await createEmbeddings(
+                        config,
+                        config.model,
+                        batch.map(m => this.redact(`${m.rel}\n${m.chunk.text}`)),
+                        signal
+                    );
+                    batch.forEach((m, j) => {
+                        if (vectors[j]) m.chunk.vector = encodeVector(vectors[j]);
+                    });
+                }
+            }
+        );
+    }
+
+    private terms(chunk: Chunk, rel: string): Map<string, number> {
+        let tf = this.termCache.get(chunk);
+        if (!tf) {
+            tf = new Map();
+            for (const t of tokenize(`${rel} ${chunk.text}`)) tf.set(t, (tf.get(t) || 0) + 1);
+            this.termCache.set(chunk, tf);
+        }
+        return tf;
+    }
+
+    private bm25(query: string, entries: { rel: string; chunk: Chunk }[]): number[] {
+        const queryTerms = [...new Set(tokenize(query))];
+        if (queryTerms.length === 0) return entries.map(() => 0);
+
+        const k1 = 1.2, b = 0.75;
+        const docs = entries.map(e => this.terms(e.chunk, e.rel));
+        const lengths = docs.map(tf => [...tf.values()].reduce((a, n) => a + n, 0));
+        const avg = lengths.reduce((a, n) => a + n, 0) / (lengths.length || 1);
+        const df = new Map(queryTerms.map(t => [t, docs.filter(tf => tf.has(t)).length]));
+
+        return docs.map((tf, i) => queryTerms.reduce((score, t) => {
+            const f = tf.get(t) || 0;
+            if (!f) return score;
+            const n = df.get(t)!;
+            const idf = Math.log(1 + (docs.length - n + 0.5) / (n + 0.5));
+            return score + idf * (f * (k1 + 1)) / (f + k1 * (1 - b + b * lengths[i] / avg));
+        }, 0));
+    }
+
+    async search(query: string, config: EmbeddingConfig, options: { limit?: number; pathPrefix?: string; signal?: AbortSignal } = {}): Promise<{ hits: SearchHit[]; method: 'embeddings' | 'bm25'; note?: string }> {
+        let note: string | undefined;
+        let data: IndexData;
+        try {
+            data = await this.refresh(config, true, options.signal);
+        } catch (e: any) {
+            if (e.name === 'AbortError') throw e;
+            // Embedding server missing or model not loaded: keyword search still works
+            note = `Embeddings unavailable (${e.message}); used keyword ranking`;
+            data = await this.refresh(config, false, options.signal);
+        }
+
+        const prefix = options.pathPrefix?.replace(/\\/g, '/').replace(/^\.\//, '');
+        const entries = Object.entries(data.files)
+            .filter(([rel]) => !prefix || rel.replace(/\\/g, '/').startsWith(prefix))
+            .flatMap(([rel, entry]) => entry.chunks.map(chunk => ({ rel, chunk })));
+        if (entries.length === 0) return { hits: [], method: 'bm25', note };
+
+        let scores: number[];
+        let method: 'embeddings' | 'bm25' = 'bm25';
+        if (config.model && !note && entries.every(e => e.chunk.vector)) {
+            const [queryVector] = await createEmbeddings(config, config.model, [query], options.signal);
+            scores = entries.map(e => cosine(queryVector, decodeVector(e.chunk.vector!)));
+            method = 'embeddings';
+        } else {
+            scores = this.bm25(query, entries);
+        }
+
+        const hits = entries
+            .map((e, i) => ({ path: e.rel, startLine: e.chunk.start + 1, endLine: e.chunk.end, score: scores[i], text: e.chunk.text }))
+            .filter(h => h.score > 0)
+            .sort((a, b) => b.score - a.score);
+
+        // Overlapping chunks of one file would mostly repeat each other
+        const picked: SearchHit[] = [];
+        for (const hit of hits) {
+            if (picked.length >= (options.limit ?? 8)) break;
+            if (picked.some(p => p.path === hit.path && hit.startLine <= p.endLine && hit.endLine >= p.startLine)) continue;
+            picked.push(hit);
+        }
+        return { hits: picked, method, note };
+    }
+
+    getStats(): { files: number; chunks: number; embedded: number } {
+        const entries = Object.values(this.data?.files || {});
+        const chunks = entries.flatMap(e => e.chunks);
+        return { files: entries.length, chunks: chunks.length, embedded: chunks.filter(c => c.vector).length };
+    }
+
+    dispose() {
+        this.disposables.forEach(d => d.dispose());
+    }
+}
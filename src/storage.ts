@@ -1,6 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
+import { ChatMode } from './modes';
 
 export interface Thread {
     id: string;
@@ -8,6 +9,33 @@ export interface Thread {
     created: number;
     updated: number;
     messages: any[];
+    profile?: string;
+    mode?: ChatMode;
+    summary?: ThreadSummary;
+    plan?: Plan;
+}
+
+// Rolling LLM summary of the older part of a thread
+export interface ThreadSummary {
+    text: string;      // Goals / Decisions / Files touched / Open TODOs
+    covered: number;   // Leading Thread.messages folded into the summary
+    updated: number;
+    edited?: boolean;  // Last change came from the user
+}
+
+// Plan-then-execute task list; once approved, each step runs as its own turn
+export interface Plan {
+    goal: string;
+    steps: PlanStep[];
+    status: 'draft' | 'running' | 'paused' | 'done';
+    updated: number;
+}
+
+export interface PlanStep {
+    text: string;
+    files: string[];   // Workspace-relative files the step expects to create or change
+    status: 'pending' | 'running' | 'done' | 'failed' | 'skipped';
+    note?: string;     // Why the step failed or was paused
 }
 
 export interface Memory {
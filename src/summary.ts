@@ -0,0 +1,65 @@
+import { Message } from './providers';
+
+const SUMMARY_PROMPT = `You maintain the running summary of a coding session between a user and an AI agent.
+Merge the previous summary (if any) with the new part of the conversation and reply with ONLY the updated summary in exactly this form:
+
+Goals:
+- what the user is trying to achieve overall
+
+Decisions:
+- choices made and constraints agreed on, with the reason when it was given
+
+Files touched:
+- path - what was done to it
+
+Open TODOs:
+- work that was promised, started or left failing and is not finished yet
+
+Keep every section (write "- none" if empty). Be specific: names, paths, commands, error messages.
+Drop anything that was later undone or superseded. Stay under 300 words.`;
+
+function clip(text: string, max: number): string {
+    const flat = text.replace(/\s+/g, ' ').trim();
+    return flat.length > max ? flat.slice(0, max) + '…' : flat;
+}
+
+// Compact plain-text rendering of messages for the summarizer
+export function formatTranscript(messages: Message[]): string {
+    const lines: string[] = [];
+    for (const msg of messages) {
+        if (msg.role === 'user') {
+            lines.push(`User: ${clip(msg.content || '', 1500)}`);
+        } else if (msg.role === 'assistant') {
+            if (msg.content) lines.push(`Assistant: ${clip(msg.content, 1500)}`);
+            for (const tc of msg.tool_calls || []) {
+                lines.push(`Tool call: ${tc.function.name}(${clip(tc.function.arguments || '', 200)})`);
+            }
+        } else if (msg.role === 'tool') {
+            lines.push(`Tool result: ${clip(msg.content || '', 300)}`);
+        }
+    }
+    return lines.join('\n');
+}
+
+export function buildSummaryRequest(previous: string | undefined, messages: Message[]): Message[] {
+    const parts = [];
+    if (previous) parts.push(`PREVIOUS SUMMARY:\n${previous}`);
+    parts.push(`NEW CONVERSATION:\n${formatTranscript(messages)}`);
+    return [
+        { role: 'system', content: SUMMARY_PROMPT },
+        { role: 'user', content: parts.join('\n\n') }
+    ];
+}
+
+/**
+ * Index (into the thread's messages) where the last `keepTurns` user turns
+ * start. Everything before it is old enough to summarize; cutting at a user
+ * message never splits a tool call from its results.
+ */
+export function summaryCutoff(messages: Message[], keepTurns: number): number {
+    let seen = 0;
+    for (let i = messages.length - 1; i >= 0; i--) {
+        if (messages[i].role === 'user' && ++seen === keepTurns) return i;
+    }
+    return 0;
+}
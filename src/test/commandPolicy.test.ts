@@ -0,0 +1,127 @@
+import { resetConfig, setConfig } from './vscodeStub';
+import { describe, it, beforeEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CommandPolicy, matchesRule, parseShellCommand } from '../commandPolicy';
+
+describe('parseShellCommand', () => {
+    it('splits on separators', () => {
+        assert.deepEqual(parseShellCommand('npm ci && npm test || echo failed; ls | wc -l & wait'),
+            ['npm ci', 'npm test', 'echo failed', 'ls', 'wc -l', 'wait']);
+    });
+
+    it('keeps redirections and quoted separators', () => {
+        assert.deepEqual(parseShellCommand('make 2>&1 >&2'), ['make 2>&1 >&2']);
+        assert.deepEqual(parseShellCommand(`echo "a; b" 'c && d'`), [`echo "a; b" 'c && d'`]);
+    });
+
+    it('unpacks subshells, command substitution and sh -c', () => {
+        assert.deepEqual(parseShellCommand('(cd src && rm -rf /)'), ['cd src', 'rm -rf /']);
+        assert.deepEqual(parseShellCommand('echo $(rm -rf /) `whoami`'), ['rm -rf /', 'whoami', 'echo $(...) $(...)']);
+        assert.deepEqual(parseShellCommand('echo "$(rm -rf /)"'), ['rm -rf /', 'echo "$(rm -rf /)"']);
+        assert.deepEqual(parseShellCommand(`bash -c 'rm -rf /'`), [`bash -c 'rm -rf /'`, 'rm -rf /']);
+    });
+
+    it('unpacks process substitution', () => {
+        assert.deepEqual(parseShellCommand('cat <(rm -rf /)'), ['rm -rf /', 'cat <(...)']);
+        assert.deepEqual(parseShellCommand('tee >(rm -rf /) < in'), ['rm -rf /', 'tee >(...) < in']);
+        assert.deepEqual(parseShellCommand('diff <(ls a) <(ls b)'), ['ls a', 'ls b', 'diff <(...) <(...)']);
+    });
+
+    it('drops shell keywords so the command behind them is checked', () => {
+        assert.deepEqual(parseShellCommand('if true; then rm -rf /; fi'), ['true', 'rm -rf /']);
+        assert.deepEqual(parseShellCommand('if false; then ls; elif true; then ls; else rm -rf /; fi'),
+            ['false', 'ls', 'true', 'ls', 'rm -rf /']);
+        assert.deepEqual(parseShellCommand('for f in *; do rm -rf /; done'), ['for f in *', 'rm -rf /']);
+        assert.deepEqual(parseShellCommand('while true; do rm -rf /; done'), ['true', 'rm -rf /']);
+        assert.deepEqual(parseShellCommand('until rm -rf /; do sleep 1; done'), ['rm -rf /', 'sleep 1']);
+        assert.deepEqual(parseShellCommand('if ( rm -rf / ); then :; fi'), ['rm -rf /', ':']);
+        assert.deepEqual(parseShellCommand('if\nthen\n  rm -rf /\nfi'), ['rm -rf /']);
+    });
+
+    it('drops prefixes that run the next word', () => {
+        assert.deepEqual(parseShellCommand('! rm -rf /'), ['rm -rf /']);
+        assert.deepEqual(parseShellCommand('time rm -rf /'), ['rm -rf /']);
+        assert.deepEqual(parseShellCommand('time -p exec rm -rf /'), ['rm -rf /']);
+        assert.deepEqual(parseShellCommand('exec rm -rf /'), ['rm -rf /']);
+        assert.deepEqual(parseShellCommand('nohup command rm -rf /'), ['rm -rf /']);
+    });
+
+    it('leaves words that only start like a keyword alone', () => {
+        assert.deepEqual(parseShellCommand('done.sh; timeout 5 ls; iffy'), ['done.sh', 'timeout 5 ls', 'iffy']);
+    });
+});
+
+describe('matchesRule', () => {
+    it('matches prefixes on whole words', () => {
+        assert.ok(matchesRule('npm test -- --watch', 'npm test'));
+        assert.ok(!matchesRule('npm tests', 'npm test'));
+    });
+
+    it('supports globs and regexes', () => {
+        assert.ok(matchesRule('git push origin main', 'git push*'));
+        assert.ok(matchesRule('curl -X POST x', '/^curl .*-X\\s*POST/'));
+        assert.ok(!matchesRule('anything', '/[/'));
+    });
+});
+
+describe('CommandPolicy', () => {
+    // Nothing is approved, so the approvals file is never created
+    const root = path.join(os.tmpdir(), 'ai-agent-policy-test');
+    const policy = new CommandPolicy(root, [/^rm\s+-rf?\s*[\/\\]$/i]);
+
+    beforeEach(() => resetConfig());
+
+    it('denies a dangerous command hidden behind keywords or substitution', () => {
+        for (const cmd of ['if true; then rm -rf /; fi', 'while :; do rm -rf /; done', '! rm -rf /', 'time rm -rf /', 'exec rm -rf /', 'cat <(rm -rf /)']) {
+            assert.equal(policy.evaluate(cmd).decision, 'deny', cmd);
+        }
+    });
+
+    it('applies the worst decision across segments', () => {
+        setConfig('ai-agent.commandAllow', ['npm test']);
+        setConfig('ai-agent.commandAsk', ['git push*']);
+        setConfig('ai-agent.commandDefault', 'deny');
+        assert.equal(policy.evaluate('npm test').decision, 'allow');
+        assert.equal(policy.evaluate('npm test && git push').decision, 'ask');
+        assert.equal(policy.evaluate('npm test; make').decision, 'deny');
+    });
+
+    it('asks for a command an ask rule covers even when a broader allow rule matches', () => {
+        setConfig('ai-agent.commandAllow', ['git*']);
+        setConfig('ai-agent.commandAsk', ['git push*']);
+        assert.deepEqual(policy.evaluate('git push --force').segments, [{ command: 'git push --force', decision: 'ask', rule: 'git push*' }]);
+        assert.equal(policy.evaluate('git status').decision, 'allow');
+    });
+
+    it('lets a saved approval settle an ask rule for that exact command only', () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-agent-policy-'));
+        try {
+            const approving = new CommandPolicy(dir);
+            setConfig('ai-agent.commandAsk', ['git push*']);
+            approving.rememberApproval(['FORCE=1 git push origin main']);
+            assert.equal(approving.evaluate('git push origin main').decision, 'allow');
+            assert.equal(approving.evaluate('git push --force').decision, 'ask');
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    it('names commandDefault as the rule when nothing else matched', () => {
+        setConfig('ai-agent.commandDefault', 'deny');
+        assert.deepEqual(policy.evaluate('make').segments, [{ command: 'make', decision: 'deny', rule: 'commandDefault' }]);
+    });
+
+    it('asks before a command touches the saved approvals', () => {
+        setConfig('ai-agent.commandAllow', ['echo*']);
+        assert.equal(policy.evaluate(`echo '{"allow":["git push"]}' > .ai-agent/command-approvals.json`).decision, 'ask');
+        assert.equal(policy.evaluate('cd .ai-agent && ls').decision, 'ask');
+    });
+
+    it('checks the command behind a keyword against ask rules', () => {
+        setConfig('ai-agent.commandAsk', ['git push*']);
+        assert.equal(policy.evaluate('if true; then git push; fi').decision, 'ask');
+    });
+});
@@ -0,0 +1,41 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { packMessages } from '../context';
+import { Message } from '../providers';
+
+const system: Message = { role: 'system', content: 'system' };
+const call = (id: string): Message => ({
+    role: 'assistant',
+    content: '',
+    tool_calls: [{ id, type: 'function', function: { name: 'read_file', arguments: '{}' } }]
+});
+const result = (id: string): Message => ({ role: 'tool', tool_call_id: id, content: `result ${id}` });
+
+describe('packMessages', () => {
+    it('keeps every message that fits, in order', () => {
+        const messages = [system, { role: 'user', content: 'hi' }, call('a'), result('a'), { role: 'assistant', content: 'done' }] as Message[];
+        const packed = packMessages(messages, 10000);
+        assert.deepEqual(packed.messages, messages);
+        assert.deepEqual(packed.dropped, []);
+    });
+
+    it('drops a tool call without a result and results without a call', () => {
+        const twoCalls: Message = { ...call('b'), tool_calls: [...call('b').tool_calls!, ...call('c').tool_calls!] };
+        const messages = [system, { role: 'user', content: 'hi' }, result('x'), call('a'), twoCalls, result('b'), { role: 'user', content: 'again' }] as Message[];
+        const packed = packMessages(messages, 10000);
+        assert.deepEqual(packed.messages.map(m => m.tool_call_id || m.tool_calls?.[0].id || m.content), ['system', 'hi', 'again']);
+    });
+
+    it('sends each tool result once', () => {
+        const messages = [system, { role: 'user', content: 'hi' }, call('a'), result('a'), result('a')] as Message[];
+        assert.equal(packMessages(messages, 10000).messages.filter(m => m.role === 'tool').length, 1);
+    });
+
+    it('leaves out older groups whole when the budget is short', () => {
+        const big = 'x'.repeat(4000);
+        const messages = [system, { role: 'user', content: 'old' }, call('a'), { ...result('a'), content: big }, { role: 'user', content: 'new' }] as Message[];
+        const packed = packMessages(messages, 200);
+        assert.deepEqual(packed.messages.map(m => m.content), ['system', 'new']);
+        assert.equal(packed.dropped.length, 3);
+    });
+});
@@ -0,0 +1,140 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { applySelectedHunks, computeHunks, DiffOp, diffLines, diffStat, formatUnifiedDiff } from '../diff';
+
+// Both texts rebuilt from the edit script, and how many lines it changes
+function replay(ops: DiffOp[]): { a: string[]; b: string[]; edits: number } {
+    const a: string[] = [];
+    const b: string[] = [];
+    for (const op of ops) {
+        if (op.type !== 'insert') a.push(op.line);
+        if (op.type !== 'delete') b.push(op.line);
+    }
+    return { a, b, edits: ops.filter(op => op.type !== 'equal').length };
+}
+
+const numbers = (n: number) => Array.from({ length: n }, (_, i) => String(i + 1));
+
+describe('diffLines', () => {
+    it('handles empty sides', () => {
+        assert.deepEqual(diffLines([], []), []);
+        assert.deepEqual(diffLines([], ['x', 'y']), [
+            { type: 'insert', newIndex: 0, line: 'x' },
+            { type: 'insert', newIndex: 1, line: 'y' }
+        ]);
+        assert.deepEqual(diffLines(['x'], []), [{ type: 'delete', oldIndex: 0, line: 'x' }]);
+    });
+
+    it('finds a minimal script for moved and repeated lines', () => {
+        const cases: [string[], string[], number][] = [
+            [['a', 'b', 'c', 'd'], ['b', 'c', 'd', 'a'], 2],
+            [['a', 'b', 'c', 'd'], ['d', 'a', 'b', 'c'], 2],
+            [['x', 'x', 'x'], ['x', 'x'], 1],
+            [['x', 'y', 'x', 'y'], ['y', 'x', 'y', 'x'], 2],
+            [['a', 'b', 'a', 'b', 'a'], ['b', 'a', 'b'], 2],
+            [['}', '}', '}'], ['}', 'return;', '}', '}'], 1]
+        ];
+        for (const [a, b, edits] of cases) {
+            const result = replay(diffLines(a, b));
+            assert.deepEqual(result.a, a);
+            assert.deepEqual(result.b, b);
+            assert.equal(result.edits, edits, `${a} -> ${b}`);
+        }
+    });
+
+    it('replaces unrelated large texts quickly and in bounded memory', () => {
+        const a = Array.from({ length: 20000 }, (_, i) => `old ${i}`);
+        const b = Array.from({ length: 20000 }, (_, i) => `new ${i}`);
+        const rss = process.memoryUsage().rss;
+        const started = Date.now();
+        const result = replay(diffLines(a, b));
+        assert.ok(Date.now() - started < 2000, `took ${Date.now() - started}ms`);
+        assert.ok(process.memoryUsage().rss - rss < 200 * 1024 * 1024, 'used more than 200 MB');
+        assert.deepEqual(result.a, a);
+        assert.deepEqual(result.b, b);
+        assert.equal(result.edits, 40000);
+    });
+
+    it('still finds a minimal script for scattered edits in a large file', () => {
+        const a = Array.from({ length: 20000 }, (_, i) => `line ${i}`);
+        const b = a.map((line, i) => i % 20 === 10 ? `changed ${i}` : line);
+        assert.equal(replay(diffLines(a, b)).edits, 2000);
+    });
+
+    it('numbers lines in both texts', () => {
+        const ops = diffLines(['a', 'b', 'c'], ['a', 'x', 'c', 'd']);
+        assert.deepEqual(ops, [
+            { type: 'equal', oldIndex: 0, newIndex: 0, line: 'a' },
+            { type: 'delete', oldIndex: 1, line: 'b' },
+            { type: 'insert', newIndex: 1, line: 'x' },
+            { type: 'equal', oldIndex: 2, newIndex: 2, line: 'c' },
+            { type: 'insert', newIndex: 3, line: 'd' }
+        ]);
+    });
+});
+
+describe('computeHunks / applySelectedHunks', () => {
+    const a = ['1', '2', '3', '4', '5'];
+    const b = ['1', 'two', '3', '4', '5', '6'];
+    const hunks = computeHunks(a, b);
+
+    it('groups consecutive changes', () => {
+        assert.deepEqual(hunks, [
+            { oldStart: 1, oldLines: ['2'], newStart: 1, newLines: ['two'] },
+            { oldStart: 5, oldLines: [], newStart: 5, newLines: ['6'] }
+        ]);
+    });
+
+    it('applies any subset of hunks', () => {
+        assert.deepEqual(applySelectedHunks(a, hunks, new Set([0, 1])), b);
+        assert.deepEqual(applySelectedHunks(a, hunks, new Set()), a);
+        assert.deepEqual(applySelectedHunks(a, hunks, new Set([0])), ['1', 'two', '3', '4', '5']);
+        assert.deepEqual(applySelectedHunks(a, hunks, new Set([1])), ['1', '2', '3', '4', '5', '6']);
+    });
+});
+
+describe('formatUnifiedDiff', () => {
+    const text = (lines: string[]) => lines.map(l => l + '\n').join('');
+
+    it('returns nothing for equal texts', () => {
+        assert.equal(formatUnifiedDiff('', ''), '');
+        assert.equal(formatUnifiedDiff('a\nb\n', 'a\r\nb\r\n'), '');
+    });
+
+    it('creates and deletes whole files', () => {
+        assert.equal(formatUnifiedDiff('', 'x\n'), '--- a\n+++ b\n@@ -0,0 +1,1 @@\n+x');
+        assert.equal(formatUnifiedDiff('x\n', '', { oldPath: 'f.ts', newPath: '/dev/null' }), '--- f.ts\n+++ /dev/null\n@@ -1,1 +0,0 @@\n-x');
+    });
+
+    it('marks a missing trailing newline', () => {
+        assert.equal(formatUnifiedDiff('a\nb', 'a\nc'),
+            '--- a\n+++ b\n@@ -1,2 +1,2 @@\n a\n-b\n\\ No newline at end of file\n+c\n\\ No newline at end of file');
+        // Only the newline changed: the last line still differs
+        assert.equal(formatUnifiedDiff('a\nb\n', 'a\nb'),
+            '--- a\n+++ b\n@@ -1,2 +1,2 @@\n a\n-b\n+b\n\\ No newline at end of file');
+    });
+
+    it('merges changes whose context touches and splits the rest', () => {
+        // Six unchanged lines between the changes: the two contexts of three meet
+        const merged = formatUnifiedDiff(text(numbers(8)), text(['X', ...numbers(8).slice(1, 7), 'Y']));
+        assert.equal(merged.split('\n').filter(l => l.startsWith('@@')).join('|'), '@@ -1,8 +1,8 @@');
+
+        // Seven: one line would be left out, so two hunks
+        const split = formatUnifiedDiff(text(numbers(9)), text(['X', ...numbers(9).slice(1, 8), 'Y']));
+        assert.equal(split.split('\n').filter(l => l.startsWith('@@')).join('|'), '@@ -1,4 +1,4 @@|@@ -6,4 +6,4 @@');
+    });
+
+    it('honours the context option', () => {
+        const diff = formatUnifiedDiff(text(numbers(5)), text(['1', '2', 'three', '4', '5']), { context: 0 });
+        assert.equal(diff, '--- a\n+++ b\n@@ -3,1 +3,1 @@\n-3\n+three');
+        const one = formatUnifiedDiff(text(numbers(5)), text(['1', '2', '3', '4', 'five']), { context: 1 });
+        assert.equal(one, '--- a\n+++ b\n@@ -4,2 +4,2 @@\n 4\n-5\n+five');
+    });
+});
+
+describe('diffStat', () => {
+    it('counts added and removed lines', () => {
+        assert.deepEqual(diffStat('a\nb\nc\n', 'a\nc\nd\ne\n'), { added: 2, removed: 1 });
+        assert.deepEqual(diffStat('', ''), { added: 0, removed: 0 });
+    });
+});
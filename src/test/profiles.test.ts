@@ -0,0 +1,48 @@
+import { resetConfig, setConfig } from './vscodeStub';
+import { describe, it, beforeEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { getProfile, resolveProfile } from '../profiles';
+
+describe('profiles', () => {
+    beforeEach(() => {
+        resetConfig();
+        setConfig('ai-agent.apiUrl', 'http://127.0.0.1:1234/v1/chat/completions');
+        setConfig('ai-agent.apiKey', 'sk-default');
+        setConfig('ai-agent.model', 'base-model');
+    });
+
+    it('fills the fields a profile leaves out from the top-level settings', () => {
+        setConfig('ai-agent.profiles', [{ name: 'fast', model: 'small', maxTokens: 512 }]);
+        const fast = getProfile('fast')!;
+        assert.equal(fast.model, 'small');
+        assert.equal(fast.maxTokens, 512);
+        assert.equal(fast.temperature, 0.1);
+        assert.equal(fast.apiUrl, 'http://127.0.0.1:1234/v1/chat/completions');
+        assert.equal(fast.apiKey, 'sk-default');
+    });
+
+    it('does not send the default key to another server', () => {
+        setConfig('ai-agent.profiles', [
+            { name: 'cloud', provider: 'anthropic', apiUrl: 'https://api.anthropic.com/v1/messages' },
+            { name: 'ollama', provider: 'ollama' },
+            { name: 'other', apiUrl: 'https://example.com/v1/chat/completions' },
+            { name: 'keyed', apiUrl: 'https://example.com/v1/chat/completions', apiKey: 'sk-other' },
+            { name: 'same', apiUrl: 'http://127.0.0.1:1234/v1/chat/completions', provider: 'openai' }
+        ]);
+        assert.equal(getProfile('cloud')!.apiKey, '');
+        assert.equal(getProfile('ollama')!.apiKey, '');
+        assert.equal(getProfile('other')!.apiKey, '');
+        assert.equal(getProfile('keyed')!.apiKey, 'sk-other');
+        assert.equal(getProfile('same')!.apiKey, 'sk-default');
+    });
+
+    it('routes tasks before the thread profile, and agent turns to the thread profile first', () => {
+        setConfig('ai-agent.profiles', [{ name: 'fast' }, { name: 'big' }]);
+        setConfig('ai-agent.taskProfiles', { commitMessage: 'fast', agent: 'big' });
+        assert.equal(resolveProfile('commitMessage', 'big').name, 'fast');
+        assert.equal(resolveProfile('agent', 'fast').name, 'fast');
+        assert.equal(resolveProfile('agent').name, 'big');
+        assert.equal(resolveProfile('summary').name, 'big');
+        assert.equal(resolveProfile('agent', 'missing').name, 'big');
+    });
+});
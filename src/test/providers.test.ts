@@ -0,0 +1,352 @@
+import { describe, it, afterEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { createCompletion, createEmbeddings, createProvider, StreamEvent, ToolDefinition } from '../providers';
+
+interface Received {
+    url: string;
+    headers: http.IncomingHttpHeaders;
+    body: any;
+}
+
+type Responder = (res: http.ServerResponse, req: Received) => void | Promise<void>;
+
+const servers: http.Server[] = [];
+
+// A local server that records each request and answers it with `respond`
+async function serve(respond: Responder): Promise<{ url: string; requests: Received[] }> {
+    const requests: Received[] = [];
+    const server = http.createServer((req, res) => {
+        let raw = '';
+        req.on('data', chunk => raw += chunk);
+        req.on('end', () => {
+            const received = { url: req.url || '', headers: req.headers, body: raw ? JSON.parse(raw) : undefined };
+            requests.push(received);
+            Promise.resolve(respond(res, received)).catch(() => res.destroy());
+        });
+    });
+    servers.push(server);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    return { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, requests };
+}
+
+afterEach(async () => {
+    for (const server of servers.splice(0)) {
+        server.closeAllConnections();
+        await new Promise(resolve => server.close(resolve));
+    }
+});
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Small writes with pauses, so lines, JSON and multi-byte characters are split across reads
+async function writeInPieces(res: http.ServerResponse, body: string, size = 13) {
+    const bytes = Buffer.from(body, 'utf-8');
+    for (let i = 0; i < bytes.length; i += size) {
+        res.write(bytes.subarray(i, i + size));
+        await sleep(1);
+    }
+    res.end();
+}
+
+const sse = (events: any[], named = false) => events
+    .map(e => `${named ? `event: ${e.type}\n` : ''}data: ${JSON.stringify(e)}\n\n`)
+    .join('');
+
+const ndjson = (lines: any[]) => lines.map(l => JSON.stringify(l) + '\n').join('');
+
+const TOOLS: ToolDefinition[] = [{
+    type: 'function',
+    function: { name: 'read_file', description: 'Read a file', parameters: { type: 'object', properties: { path: { type: 'string' } } } }
+}];
+
+function recorder() {
+    const events: StreamEvent[] = [];
+    return { events, onStream: (e: StreamEvent) => { events.push(e); } };
+}
+
+describe('OpenAIProvider', () => {
+    it('streams text and sends the request in chat-completions form', async () => {
+        const { url, requests } = await serve(res => {
+            res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+            return writeInPieces(res, sse([
+                { choices: [{ delta: { role: 'assistant' } }] },
+                { choices: [{ delta: { content: 'Héllo ' } }] },
+                { choices: [{ delta: { content: 'wörld 🙂' } }] }
+            ]) + 'data: [DONE]\n\n');
+        });
+        const rec = recorder();
+        const res = await createProvider('openai', { apiUrl: `${url}/v1/chat/completions`, apiKey: 'sk-test' }).chat({
+            model: 'm', messages: [{ role: 'user', content: 'hi' }], tools: TOOLS, maxTokens: 10, onStream: rec.onStream
+        });
+
+        assert.deepEqual(res, { message: { role: 'assistant', content: 'Héllo wörld 🙂' }, streamed: true });
+        assert.equal(rec.events[0].type, 'start');
+        assert.equal(rec.events[rec.events.length - 1].type, 'end');
+        assert.equal(rec.events.filter(e => e.type === 'delta').map(e => (e as any).text).join(''), 'Héllo wörld 🙂');
+
+        const [req] = requests;
+        assert.equal(req.url, '/v1/chat/completions');
+        assert.equal(req.headers.authorization, 'Bearer sk-test');
+        assert.equal(req.body.stream, true);
+        assert.equal(req.body.max_tokens, 10);
+        assert.equal(req.body.tool_choice, 'auto');
+        assert.deepEqual(req.body.tools, TOOLS);
+    });
+
+    it('reassembles tool-call arguments streamed in fragments', async () => {
+        const { url } = await serve(res => {
+            res.writeHead(200, { 'Content-Type': 'text/event-stream; charset=utf-8' });
+            return writeInPieces(res, sse([
+                { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_a', function: { name: 'read_file', arguments: '' } }] } }] },
+                { choices: [{ delta: { tool_calls: [{ index: 1, id: 'call_b', function: { name: 'read_', arguments: '{"pa' } }] } }] },
+                { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: '{"path":' } }] } }] },
+                { choices: [{ delta: { tool_calls: [{ index: 1, function: { name: 'file', arguments: 'th":"b.ts"}' } }] } }] },
+                { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: '"a.ts"}' } }] } }] },
+                { choices: [{ delta: {}, finish_reason: 'tool_calls' }] }
+            ]) + 'data: [DONE]\n\n');
+        });
+        const res = await createProvider('openai', { apiUrl: url }).chat({ model: 'm', messages: [] });
+
+        assert.equal(res.streamed, false);
+        assert.deepEqual(res.message.tool_calls, [
+            { id: 'call_a', type: 'function', function: { name: 'read_file', arguments: '{"path":"a.ts"}' } },
+            { id: 'call_b', type: 'function', function: { name: 'read_file', arguments: '{"path":"b.ts"}' } }
+        ]);
+    });
+
+    it('accepts a plain JSON reply from servers that ignore stream: true', async () => {
+        const { url } = await serve(res => {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ choices: [{ message: { role: 'assistant', content: 'ok' } }] }));
+        });
+        const res = await createProvider('openai', { apiUrl: url }).chat({ model: 'm', messages: [] });
+        assert.deepEqual(res, { message: { role: 'assistant', content: 'ok' }, streamed: false });
+    });
+
+    it('reports HTTP errors and errors inside the stream', async t => {
+        t.mock.method(console, 'error', () => {});
+        const failing = await serve(res => {
+            res.writeHead(400, { 'Content-Type': 'application/json' });
+            res.end('{"error":"context length exceeded"}');
+        });
+        await assert.rejects(
+            createProvider('openai', { apiUrl: failing.url }).chat({ model: 'm', messages: [] }),
+            /HTTP 400: \{"error":"context length exceeded"\}/
+        );
+
+        const streaming = await serve(res => {
+            res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+            res.end(sse([{ choices: [{ delta: { content: 'par' } }] }, { error: { message: 'model crashed' } }]));
+        });
+        const rec = recorder();
+        await assert.rejects(
+            createProvider('openai', { apiUrl: streaming.url }).chat({ model: 'm', messages: [], onStream: rec.onStream }),
+            /model crashed/
+        );
+        assert.equal(rec.events[rec.events.length - 1].type, 'end');
+    });
+
+    it('stops reading when aborted mid-stream', async () => {
+        const { url } = await serve(res => {
+            res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+            // The rest never comes: only the abort can end this request
+            res.write(sse([{ choices: [{ delta: { content: 'first' } }] }]));
+        });
+        const controller = new AbortController();
+        const rec = recorder();
+        await assert.rejects(
+            createProvider('openai', { apiUrl: url }).chat({
+                model: 'm',
+                messages: [],
+                signal: controller.signal,
+                onStream: e => { rec.onStream(e); if (e.type === 'delta') controller.abort(); }
+            }),
+            { name: 'AbortError' }
+        );
+        assert.deepEqual(rec.events.map(e => e.type), ['start', 'delta', 'end']);
+    });
+
+    it('fails when the connection drops mid-stream', async () => {
+        const { url } = await serve(async res => {
+            res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+            res.write(sse([{ choices: [{ delta: { content: 'partial' } }] }]));
+            await sleep(5);
+            res.destroy();
+        });
+        await assert.rejects(createProvider('openai', { apiUrl: url }).chat({ model: 'm', messages: [] }));
+    });
+});
+
+describe('OllamaProvider', () => {
+    it('streams NDJSON text and tool calls with object arguments', async () => {
+        const { url, requests } = await serve(res => {
+            res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+            return writeInPieces(res, ndjson([
+                { message: { role: 'assistant', content: 'Let me ' } },
+                { message: { role: 'assistant', content: 'look.' } },
+                { message: { role: 'assistant', content: '', tool_calls: [{ function: { name: 'read_file', arguments: { path: 'a.ts' } } }] } },
+                { message: { role: 'assistant', content: '', tool_calls: [{ function: { name: 'read_file', arguments: { path: 'b.ts' } } }] } },
+                { message: { role: 'assistant', content: '' }, done: true }
+            ]));
+        });
+        const res = await createProvider('ollama', { apiUrl: `${url}/api/chat` }).chat({
+            model: 'm',
+            temperature: 0.3,
+            maxTokens: 50,
+            tools: TOOLS,
+            messages: [
+                { role: 'user', content: 'read a' },
+                { role: 'assistant', content: '', tool_calls: [{ id: 'c1', function: { name: 'read_file', arguments: '{"path":"a.ts"}' } }] },
+                { role: 'tool', tool_call_id: 'c1', content: 'A' }
+            ]
+        });
+
+        assert.equal(res.message.content, 'Let me look.');
+        const calls = res.message.tool_calls!;
+        assert.deepEqual(calls.map(tc => tc.function), [
+            { name: 'read_file', arguments: '{"path":"a.ts"}' },
+            { name: 'read_file', arguments: '{"path":"b.ts"}' }
+        ]);
+        assert.notEqual(calls[0].id, calls[1].id);
+
+        const [req] = requests;
+        assert.deepEqual(req.body.options, { temperature: 0.3, num_predict: 50 });
+        assert.deepEqual(req.body.messages[1].tool_calls, [{ function: { name: 'read_file', arguments: { path: 'a.ts' } } }]);
+        assert.deepEqual(req.body.messages[2], { role: 'tool', content: 'A', tool_name: 'read_file' });
+    });
+
+    it('reports an error line', async () => {
+        const { url } = await serve(res => {
+            res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+            res.end(ndjson([{ error: 'model "m" not found, try pulling it first' }]));
+        });
+        await assert.rejects(createProvider('ollama', { apiUrl: url }).chat({ model: 'm', messages: [] }), /not found/);
+    });
+
+    it('stops reading when aborted mid-stream', async () => {
+        const { url } = await serve(res => {
+            res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+            res.write(ndjson([{ message: { content: 'first' } }]));
+        });
+        const controller = new AbortController();
+        await assert.rejects(
+            createProvider('ollama', { apiUrl: url }).chat({
+                model: 'm', messages: [], signal: controller.signal, onStream: e => { if (e.type === 'delta') controller.abort(); }
+            }),
+            { name: 'AbortError' }
+        );
+    });
+});
+
+describe('AnthropicProvider', () => {
+    it('streams text and tool_use blocks from Messages API events', async () => {
+        const { url, requests } = await serve(res => {
+            res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+            return writeInPieces(res, sse([
+                { type: 'message_start', message: { id: 'msg_1', role: 'assistant', content: [] } },
+                { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+                { type: 'ping' },
+                { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Reading ' } },
+                { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'it.' } },
+                { type: 'content_block_stop', index: 0 },
+                { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_1', name: 'read_file', input: {} } },
+                { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '' } },
+                { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"path": "sr' } },
+                { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: 'c/a.ts"}' } },
+                { type: 'content_block_stop', index: 1 },
+                { type: 'message_delta', delta: { stop_reason: 'tool_use' } },
+                { type: 'message_stop' }
+            ], true));
+        });
+        const rec = recorder();
+        const res = await createProvider('anthropic', { apiUrl: `${url}/v1/messages`, apiKey: 'sk-ant' }).chat({
+            model: 'claude',
+            tools: TOOLS,
+            onStream: rec.onStream,
+            messages: [
+                { role: 'system', content: 'be brief' },
+                { role: 'user', content: 'read a' },
+                { role: 'assistant', content: 'ok', tool_calls: [{ id: 't0', function: { name: 'read_file', arguments: '{"path":"x"}' } }] },
+                { role: 'tool', tool_call_id: 't0', content: 'X' },
+                { role: 'user', content: 'and a' }
+            ]
+        });
+
+        assert.equal(res.message.content, 'Reading it.');
+        assert.equal(res.streamed, true);
+        assert.deepEqual(res.message.tool_calls, [
+            { id: 'toolu_1', type: 'function', function: { name: 'read_file', arguments: '{"path": "src/a.ts"}' } }
+        ]);
+        assert.deepEqual(rec.events.map(e => e.type), ['start', 'delta', 'delta', 'end']);
+
+        const [req] = requests;
+        assert.equal(req.headers['x-api-key'], 'sk-ant');
+        assert.equal(req.headers['anthropic-version'], '2023-06-01');
+        assert.equal(req.headers.authorization, undefined);
+        assert.equal(req.body.system, 'be brief');
+        assert.equal(req.body.max_tokens, 4096);
+        assert.deepEqual(req.body.tools, [{ name: 'read_file', description: 'Read a file', input_schema: TOOLS[0].function.parameters }]);
+        // The tool result and the next user message are one user turn
+        assert.deepEqual(req.body.messages.map((m: any) => [m.role, m.content.map((b: any) => b.type).join(',')]), [
+            ['user', 'text'],
+            ['assistant', 'text,tool_use'],
+            ['user', 'tool_result,text']
+        ]);
+        assert.deepEqual(req.body.messages[1].content[1], { type: 'tool_use', id: 't0', name: 'read_file', input: { path: 'x' } });
+    });
+
+    it('reports an error event', async () => {
+        const { url } = await serve(res => {
+            res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+            res.end(sse([{ type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } }], true));
+        });
+        await assert.rejects(createProvider('anthropic', { apiUrl: url }).chat({ model: 'm', messages: [] }), /Overloaded/);
+    });
+
+    it('stops reading when aborted mid-stream', async () => {
+        const { url } = await serve(res => {
+            res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+            res.write(sse([
+                { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+                { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'first' } }
+            ], true));
+        });
+        const controller = new AbortController();
+        await assert.rejects(
+            createProvider('anthropic', { apiUrl: url }).chat({
+                model: 'm', messages: [], signal: controller.signal, onStream: e => { if (e.type === 'delta') controller.abort(); }
+            }),
+            { name: 'AbortError' }
+        );
+    });
+});
+
+describe('createEmbeddings / createCompletion', () => {
+    it('derives the embeddings URL from the chat URL and keeps input order', async () => {
+        const { url, requests } = await serve(res => {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ data: [{ index: 1, embedding: [2] }, { index: 0, embedding: [1] }] }));
+        });
+        const vectors = await createEmbeddings({ apiUrl: `${url}/v1/chat/completions` }, 'embed', ['a', 'b']);
+        assert.deepEqual(vectors, [[1], [2]]);
+        assert.equal(requests[0].url, '/v1/embeddings');
+        assert.deepEqual(requests[0].body, { model: 'embed', input: ['a', 'b'] });
+    });
+
+    it('sends fill-in-the-middle requests to /v1/completions and /api/generate', async () => {
+        const { url, requests } = await serve((res, req) => {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(req.url === '/api/generate' ? { response: 'ollama' } : { choices: [{ text: 'openai' }] }));
+        });
+        const request = { model: 'm', prompt: 'before', suffix: 'after', maxTokens: 16 };
+        assert.equal(await createCompletion('openai', { apiUrl: `${url}/v1/chat/completions` }, request), 'openai');
+        assert.equal(await createCompletion('ollama', { apiUrl: `${url}/api/chat` }, request), 'ollama');
+        assert.equal(requests[0].url, '/v1/completions');
+        assert.equal(requests[0].body.suffix, 'after');
+        assert.equal(requests[1].url, '/api/generate');
+        assert.equal(requests[1].body.raw, false);
+        await assert.rejects(createCompletion('anthropic', { apiUrl: url }, request), /OpenAI-compatible or Ollama/);
+    });
+});
@@ -0,0 +1,52 @@
+import './vscodeStub';
+import { describe, it, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Cache } from '../cache';
+import { SemanticIndex } from '../semanticIndex';
+
+describe('SemanticIndex', () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-agent-index-'));
+    after(() => fs.rmSync(root, { recursive: true, force: true }));
+
+    const files: string[] = [];
+    for (let i = 0; i < 120; i++) {
+        const rel = path.join('src', `module${i}.ts`);
+        fs.mkdirSync(path.join(root, 'src'), { recursive: true });
+        fs.writeFileSync(path.join(root, rel), `export function helper${i}() {\n    return ${i};\n}\n`);
+        files.push(rel);
+    }
+    fs.writeFileSync(path.join(root, 'src', 'secret.ts'), 'export function parseInvoiceTotals() {}\n');
+    files.push(path.join('src', 'secret.ts'));
+    fs.writeFileSync(path.join(root, 'src', 'invoice.ts'), 'export function parseInvoiceTotals(lines: string[]) {\n    return lines.length;\n}\n');
+    files.push(path.join('src', 'invoice.ts'));
+
+    // Only what SemanticIndex uses of the Cache
+    const cache = {
+        whenIndexed: async () => {},
+        getAllFiles: () => files,
+        onDidChangeFile: () => ({ dispose() {} })
+    } as unknown as Cache;
+
+    it('indexes the workspace without an embedding model and skips files it may not read', async () => {
+        const index = new SemanticIndex(root, cache, p => !p.endsWith('secret.ts'));
+        const result = await index.search('parse invoice totals', { apiUrl: 'http://127.0.0.1:9/v1/chat/completions', model: '' });
+
+        assert.equal(result.method, 'bm25');
+        assert.deepEqual(result.hits.map(h => h.path), [path.join('src', 'invoice.ts')]);
+        assert.deepEqual(index.getStats(), { files: 121, chunks: 121, embedded: 0 });
+
+        const saved = JSON.parse(fs.readFileSync(path.join(root, '.ai-agent', 'semantic-index.json'), 'utf-8'));
+        assert.equal(Object.keys(saved.files).length, 121);
+        index.dispose();
+    });
+
+    it('reuses the saved index in a new session', async () => {
+        const index = new SemanticIndex(root, cache, p => !p.endsWith('secret.ts'));
+        const result = await index.search('helper7', { apiUrl: 'http://127.0.0.1:9/v1/chat/completions', model: '' });
+        assert.equal(result.hits[0].path, path.join('src', 'module7.ts'));
+        index.dispose();
+    });
+});
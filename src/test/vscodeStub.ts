@@ -0,0 +1,41 @@
+import Module = require('module');
+
+/**
+ * The parts of the `vscode` API the tested modules touch outside the
+ * extension host. Import this first in any test whose subject imports
+ * vscode; `setConfig` stands in for the user's settings.
+ */
+const settings = new Map<string, unknown>();
+
+export function setConfig(key: string, value: unknown) {
+    if (value === undefined) settings.delete(key);
+    else settings.set(key, value);
+}
+
+export function resetConfig() {
+    settings.clear();
+}
+
+const vscode = {
+    workspace: {
+        getConfiguration: (section?: string) => ({
+            get: <T>(key: string, fallback?: T): T | undefined => {
+                const value = settings.get(section ? `${section}.${key}` : key);
+                return value === undefined ? fallback : value as T;
+            }
+        })
+    },
+    window: {
+        createOutputChannel: () => ({ append() {}, appendLine() {}, clear() {}, show() {}, dispose() {} })
+    }
+};
+
+const loader = Module as unknown as {
+    _resolveFilename: (request: string, ...rest: unknown[]) => string;
+    _cache: Record<string, unknown>;
+};
+const resolve = loader._resolveFilename;
+loader._resolveFilename = function (this: unknown, request: string, ...rest: unknown[]) {
+    return request === 'vscode' ? 'vscode' : resolve.call(this, request, ...rest);
+};
+loader._cache['vscode'] = { id: 'vscode', filename: 'vscode', loaded: true, exports: vscode };
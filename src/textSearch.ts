@@ -0,0 +1,357 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as cp from 'child_process';
+import * as vscode from 'vscode';
+import { globToRegExp, IgnoreRule, isIgnored, matchGlob, parseGitignore } from './glob';
+
+export interface TextSearchOptions {
+    query: string;
+    dir: string;                 // Absolute folder to search
+    regex?: boolean;             // Default: literal text
+    caseMode?: 'smart' | 'sensitive' | 'insensitive';
+    wholeWord?: boolean;
+    include?: string[];          // Globs; a file must match one of them
+    exclude?: string[];
+    context?: number;            // Lines before and after each match
+    offset?: number;             // Matches to skip (paging)
+    maxResults?: number;
+    signal?: AbortSignal;
+}
+
+export interface TextMatch {
+    path: string;                // Workspace-relative
+    line: number;                // 1-based
+    text: string;
+    before: string[];
+    after: string[];
+}
+
+export interface TextSearchResult {
+    matches: TextMatch[];        // The requested page
+    total: number;               // Matches found overall (capped at MAX_TOTAL)
+    files: number;
+    capped: boolean;
+    engine: 'ripgrep' | 'builtin';
+}
+
+const MAX_TOTAL = 5000;
+const MAX_FILE_SIZE = 1024 * 1024;
+const ALWAYS_EXCLUDED = ['.git', 'node_modules', '.ai-agent'];
+
+/**
+ * Workspace text search. Uses the ripgrep binary that ships with VS Code when
+ * it can be found, otherwise a built-in walker with the same semantics:
+ * .gitignore, files.exclude and search.exclude are honoured, globs support
+ * ** and {a,b}, and results page instead of stopping at a fixed count.
+ */
+export class TextSearch {
+    private rgPath: string | null | undefined;
+
+    constructor(private workspaceRoot: string, private canRead: (filePath: string) => boolean = () => true) {}
+
+    async search(options: TextSearchOptions): Promise<TextSearchResult> {
+        // Validate up front so both engines fail the same way
+        const matcher = this.buildMatcher(options);
+        for (const glob of [...(options.include || []), ...(options.exclude || [])]) {
+            try {
+                globToRegExp(glob);
+            } catch {
+                throw new Error(`Invalid glob: ${glob}`);
+            }
+        }
+
+        const rg = this.findRipgrep();
+        if (rg) {
+            try {
+                return await this.searchWithRipgrep(rg, options);
+            } catch (e: any) {
+                if (e.name === 'AbortError') throw e;
+                console.error('[AI Agent Search] ripgrep failed, using built-in search:', e.message);
+            }
+        }
+        return this.searchBuiltin(options, matcher);
+    }
+
+    private buildMatcher(options: TextSearchOptions): RegExp {
+        let source = options.regex ? options.query : options.query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        if (options.wholeWord) source = `\\b(?:${source})\\b`;
+        try {
+            return new RegExp(source, this.ignoreCase(options) ? 'i' : '');
+        } catch (e: any) {
+            throw new Error(`Invalid regex: ${e.message}. Pass regex=false to search for the literal text`);
+        }
+    }
+
+    private ignoreCase(options: TextSearchOptions): boolean {
+        const mode = options.caseMode || 'smart';
+        if (mode === 'smart') return options.query === options.query.toLowerCase();
+        return mode === 'insensitive';
+    }
+
+    // files.exclude and search.exclude entries that are switched on
+    private configuredExcludes(): string[] {
+        const globs: string[] = [];
+        for (const section of ['files', 'search']) {
+            const excludes = vscode.workspace.getConfiguration(section).get<Record<string, any>>('exclude') || {};
+            for (const [glob, enabled] of Object.entries(excludes)) {
+                if (enabled === true) globs.push(glob);
+            }
+        }
+        return globs;
+    }
+
+    private findRipgrep(): string | null {
+        if (this.rgPath !== undefined) return this.rgPath;
+        const exe = process.platform === 'win32' ? 'rg.exe' : 'rg';
+        const candidates = ['node_modules', 'node_modules.asar.unpacked'].flatMap(modules => [
+            path.join(vscode.env.appRoot, modules, '@vscode', 'ripgrep', 'bin', exe),
+            path.join(vscode.env.appRoot, modules, 'vscode-ripgrep', 'bin', exe)
+        ]);
+        this.rgPath = candidates.find(c => fs.existsSync(c)) || null;
+        return this.rgPath;
+    }
+
+    private relative(filePath: string): string {
+        return path.relative(this.workspaceRoot, filePath).replace(/\\/g, '/');
+    }
+
+    private searchWithRipgrep(rg: string, options: TextSearchOptions): Promise<TextSearchResult> {
+        const context = options.context ?? 0;
+        const args = ['--json', '--no-require-git', '--max-filesize', '1M', '-C', String(context)];
+        const mode = options.caseMode || 'smart';
+        args.push(mode === 'sensitive' ? '-s' : mode === 'insensitive' ? '-i' : '-S');
+        if (!options.regex) args.push('-F');
+        if (options.wholeWord) args.push('-w');
+        for (const glob of options.include || []) args.push('--glob', glob);
+        for (const glob of [...ALWAYS_EXCLUDED, ...this.configuredExcludes(), ...(options.exclude || [])]) {
+            args.push('--glob', `!${glob}`);
+        }
+        args.push('--', options.query, options.dir);
+
+        return new Promise((resolve, reject) => {
+            const child = cp.spawn(rg, args, { cwd: this.workspaceRoot, windowsHide: true });
+            const collector = new MatchCollector(options, context);
+            let buffer = '';
+            let stderr = '';
+            let capped = false;
+
+            const onAbort = () => child.kill();
+            options.signal?.addEventListener('abort', onAbort);
+
+            child.stdout.on('data', (chunk: Buffer) => {
+                buffer += chunk.toString('utf-8');
+                let newline: number;
+                while ((newline = buffer.indexOf('\n')) >= 0) {
+                    const line = buffer.slice(0, newline);
+                    buffer = buffer.slice(newline + 1);
+                    let event: any;
+                    try {
+                        event = JSON.parse(line);
+                    } catch {
+                        continue;
+                    }
+                    if (event.type !== 'match' && event.type !== 'context') continue;
+
+                    const file = event.data.path?.text;
+                    if (!file || !this.canRead(file)) continue;
+                    const text = (event.data.lines?.text ?? '').replace(/\r?\n$/, '');
+                    collector.add(this.relative(file), event.data.line_number, text, event.type === 'match');
+                    if (collector.total >= MAX_TOTAL && !capped) {
+                        capped = true;
+                        child.kill();
+                    }
+                }
+            });
+            child.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString('utf-8'); });
+            child.on('error', err => {
+                options.signal?.removeEventListener('abort', onAbort);
+                reject(err);
+            });
+            child.on('close', code => {
+                options.signal?.removeEventListener('abort', onAbort);
+                if (options.signal?.aborted) {
+                    const err = new Error('Search cancelled');
+                    err.name = 'AbortError';
+                    return reject(err);
+                }
+                // 1 = no matches; 2 = some files unreadable, results still valid
+                if (code !== null && code > 2 && !capped) return reject(new Error(stderr.trim() || `ripgrep exit ${code}`));
+                resolve(collector.result(capped, 'ripgrep'));
+            });
+        });
+    }
+
+    private async searchBuiltin(options: TextSearchOptions, matcher: RegExp): Promise<TextSearchResult> {
+        const context = options.context ?? 0;
+        const collector = new MatchCollector(options, context);
+        const excludes = [...ALWAYS_EXCLUDED, ...this.configuredExcludes(), ...(options.exclude || [])];
+        const rules: IgnoreRule[] = [];
+        let capped = false;
+
+        // .gitignore files above the search folder still apply to it
+        const rootRel = this.relative(options.dir);
+        const ancestors = rootRel ? rootRel.split('/').map((_, i, parts) => parts.slice(0, i).join('/')) : [];
+        for (const dir of ancestors) rules.push(...this.readGitignore(dir));
+
+        const walk = async (dir: string): Promise<void> => {
+            if (options.signal?.aborted || capped) return;
+            const dirRel = this.relative(dir);
+            rules.push(...this.readGitignore(dirRel));
+
+            let entries: fs.Dirent[];
+            try {
+                entries = await fs.promises.readdir(dir, { withFileTypes: true });
+            } catch {
+                return;
+            }
+            entries.sort((a, b) => a.name.localeCompare(b.name));
+
+            for (const entry of entries) {
+                if (capped) return;
+                // Hidden files are skipped, as ripgrep does by default
+                if (entry.name.startsWith('.')) continue;
+                const full = path.join(dir, entry.name);
+                const rel = this.relative(full);
+                const isDir = entry.isDirectory();
+                if (excludes.some(g => matchGlob(rel, g)) || isIgnored(rel, isDir, rules)) continue;
+
+                if (isDir) {
+                    await walk(full);
+                    continue;
+                }
+                if (!entry.isFile()) continue;
+                if (options.include?.length && !options.include.some(g => matchGlob(rel, g))) continue;
+                if (!this.canRead(full)) continue;
+
+                try {
+                    const stats = await fs.promises.stat(full);
+                    if (stats.size > MAX_FILE_SIZE) continue;
+                    const content = await fs.promises.readFile(full, 'utf-8');
+                    if (content.slice(0, 8000).includes('\0')) continue;
+                    const lines = content.split(/\r?\n/);
+                    if (lines[lines.length - 1] === '') lines.pop();
+                    lines.forEach((line, i) => {
+                        if (capped || !matcher.test(line)) return;
+                        collector.addWithContext(rel, lines, i);
+                        if (collector.total >= MAX_TOTAL) capped = true;
+                    });
+                } catch {}
+            }
+        };
+
+        await walk(options.dir);
+        if (options.signal?.aborted) {
+            const err = new Error('Search cancelled');
+            err.name = 'AbortError';
+            throw err;
+        }
+        return collector.result(capped, 'builtin');
+    }
+
+    private readGitignore(dirRel: string): IgnoreRule[] {
+        try {
+            const file = path.join(this.workspaceRoot, dirRel, '.gitignore');
+            return parseGitignore(fs.readFileSync(file, 'utf-8'), dirRel);
+        } catch {
+            return [];
+        }
+    }
+}
+
+// Counts every match but keeps only the requested page, with context lines
+class MatchCollector {
+    total = 0;
+    private files = new Set<string>();
+    private matches: TextMatch[] = [];
+    private pending: { path: string; line: number; text: string }[] = [];  // Context seen before its match
+    private start: number;
+    private end: number;
+
+    constructor(options: TextSearchOptions, private context: number) {
+        this.start = options.offset ?? 0;
+        this.end = this.start + (options.maxResults ?? 50);
+    }
+
+    private inPage(): boolean {
+        return this.total > this.start && this.total <= this.end;
+    }
+
+    // Streaming form (ripgrep): context lines arrive as their own events around matches
+    add(file: string, line: number, text: string, isMatch: boolean) {
+        if (!isMatch) {
+            const last = this.matches[this.matches.length - 1];
+            if (last && last.path === file && line > last.line && line <= last.line + this.context && last.after.length < this.context) {
+                last.after.push(text);
+            }
+            this.pending.push({ path: file, line, text });
+            if (this.pending.length > this.context) this.pending.shift();
+            return;
+        }
+        this.total++;
+        this.files.add(file);
+        if (this.inPage()) {
+            const before = this.pending
+                .filter(p => p.path === file && p.line < line && p.line >= line - this.context)
+                .map(p => p.text);
+            this.matches.push({ path: file, line, text, before, after: [] });
+        }
+        this.pending.push({ path: file, line, text });
+        if (this.pending.length > this.context) this.pending.shift();
+    }
+
+    // Whole-file form (built-in search)
+    addWithContext(file: string, lines: string[], index: number) {
+        this.total++;
+        this.files.add(file);
+        if (!this.inPage()) return;
+        this.matches.push({
+            path: file,
+            line: index + 1,
+            text: lines[index],
+            before: lines.slice(Math.max(0, index - this.context), index),
+            after: lines.slice(index + 1, index + 1 + this.context)
+        });
+    }
+
+    result(capped: boolean, engine: 'ripgrep' | 'builtin'): TextSearchResult {
+        return { matches: this.matches, total: this.total, files: this.files.size, capped, engine };
+    }
+}
+
+// grep-style listing grouped by file: "12:" marks a match, "13-" a context line
+export function formatSearchResult(result: TextSearchResult, offset: number = 0): string {
+    if (result.total === 0) return 'No matches found';
+    if (result.matches.length === 0) return `No more matches (${result.total} total)`;
+
+    // Merge overlapping context so each line is printed once, matches winning over context
+    const byFile = new Map<string, Map<number, { text: string; match: boolean }>>();
+    for (const m of result.matches) {
+        let lines = byFile.get(m.path);
+        if (!lines) byFile.set(m.path, lines = new Map());
+        const put = (n: number, text: string, match: boolean) => {
+            if (!lines!.get(n)?.match) lines!.set(n, { text, match });
+        };
+        m.before.forEach((text, i) => put(m.line - m.before.length + i, text, false));
+        put(m.line, m.text, true);
+        m.after.forEach((text, i) => put(m.line + 1 + i, text, false));
+    }
+
+    const clip = (s: string) => (s.length > 200 ? s.slice(0, 200) + '…' : s);
+    const out: string[] = [];
+    for (const [file, lines] of byFile) {
+        if (out.length) out.push('');
+        out.push(file);
+        let previous = -1;
+        for (const n of [...lines.keys()].sort((a, b) => a - b)) {
+            if (previous >= 0 && n > previous + 1) out.push('  --');
+            const { text, match } = lines.get(n)!;
+            out.push(`  ${n}${match ? ':' : '-'}${clip(text)}`);
+            previous = n;
+        }
+    }
+
+    const shownEnd = offset + result.matches.length;
+    let footer = `\nMatches ${offset + 1}-${shownEnd} of ${result.total}${result.capped ? '+' : ''} in ${result.files} file(s)`;
+    if (shownEnd < result.total) footer += `. Call again with offset=${shownEnd} for more`;
+    return out.join('\n') + footer;
+}
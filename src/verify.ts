@@ -0,0 +1,88 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+export type FixOutcome = 'green' | 'stalled' | 'maxRounds' | 'timeout' | 'stopped';
+
+// What is still failing after a round of the fix loop
+export interface VerifyReport {
+    errors: string[];          // "file:line: message" for every error-severity diagnostic in scope
+    command?: string;          // The configured verify command, when there is one
+    commandPassed?: boolean;
+    commandOutput?: string;
+    passed: boolean;
+    signature: string;         // Compared between rounds to spot a loop that is going nowhere
+}
+
+/**
+ * Resolve once diagnostics have stopped changing for `quietMs` (language
+ * servers re-check in bursts after an edit), or after `timeoutMs` at most.
+ */
+export function waitForDiagnostics(quietMs: number = 1000, timeoutMs: number = 10000, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+        let quiet: NodeJS.Timeout;
+        const finish = () => {
+            clearTimeout(quiet);
+            clearTimeout(limit);
+            listener.dispose();
+            signal?.removeEventListener('abort', finish);
+            resolve();
+        };
+        const listener = vscode.languages.onDidChangeDiagnostics(() => {
+            clearTimeout(quiet);
+            quiet = setTimeout(finish, quietMs);
+        });
+        const limit = setTimeout(finish, timeoutMs);
+        quiet = setTimeout(finish, quietMs);
+        signal?.addEventListener('abort', finish);
+    });
+}
+
+// Error-severity diagnostics, limited to `files` when given
+export function collectErrors(workspaceRoot: string, files: string[] = []): string[] {
+    const scope = new Set(files.map(f => path.resolve(f)));
+    const errors: string[] = [];
+    for (const [uri, diags] of vscode.languages.getDiagnostics()) {
+        if (uri.scheme !== 'file') continue;
+        if (scope.size && !scope.has(path.resolve(uri.fsPath))) continue;
+        const rel = path.relative(workspaceRoot, uri.fsPath).replace(/\\/g, '/');
+        for (const d of diags) {
+            if (d.severity !== vscode.DiagnosticSeverity.Error) continue;
+            const source = d.source ? ` [${d.source}]` : '';
+            errors.push(`${rel}:${d.range.start.line + 1}:${source} ${d.message}`);
+        }
+    }
+    return errors;
+}
+
+// Timings and timestamps change on every run; without them identical failures compare equal
+function stableOutput(output: string): string {
+    return output
+        .replace(/\d+(\.\d+)?\s*(ms|s|sec|seconds|m)\b/g, '')
+        .replace(/\d{1,2}:\d{2}(:\d{2})?(\.\d+)?/g, '')
+        .replace(/\s+/g, ' ');
+}
+
+export function buildReport(errors: string[], command?: { cmd: string; passed: boolean; output: string }): VerifyReport {
+    return {
+        errors,
+        command: command?.cmd,
+        commandPassed: command?.passed,
+        commandOutput: command?.output,
+        passed: errors.length === 0 && (command?.passed ?? true),
+        signature: [...errors].sort().join('\n') + (command && !command.passed ? `\n${stableOutput(command.output)}` : '')
+    };
+}
+
+// The failures as the model sees them
+export function formatReport(report: VerifyReport, maxErrors: number = 40): string {
+    const parts: string[] = [];
+    if (report.errors.length) {
+        const shown = report.errors.slice(0, maxErrors);
+        const more = report.errors.length > shown.length ? `\n... ${report.errors.length - shown.length} more` : '';
+        parts.push(`${report.errors.length} error(s):\n${shown.join('\n')}${more}`);
+    }
+    if (report.command && !report.commandPassed) {
+        parts.push(`\`${report.command}\` failed:\n${report.commandOutput}`);
+    }
+    return parts.join('\n\n') || 'No errors';
+}